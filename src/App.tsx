@@ -1,148 +1,243 @@
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
 import bollingerBands from './strats/bollinger_bands.txt?raw'
 import rsiOversold from './strats/rsi_oversold.txt?raw'
 import smaCrossover from './strats/sma_crossover.txt?raw' //important step to extract actual content
+import customTemplate from './strats/custom_template.txt?raw'
 import CandlestickChart from './components/CandlestickChart'
+import type { ChartHandle } from './components/CandlestickChart'
+import TradeList from './components/TradeList'
+import StrategyParams from './components/StrategyParams'
+import StrategyEditor from './components/StrategyEditor'
+import MetricsGrid from './components/MetricsGrid'
+import BenchmarkComparison from './components/BenchmarkComparison'
+import SweepPanel from './components/SweepPanel'
+import SweepResults from './components/SweepResults'
+import BatchPanel from './components/BatchPanel'
+import SymbolPicker from './components/SymbolPicker'
+import BatchResults from './components/BatchResults'
+import WalkForwardPanel from './components/WalkForwardPanel'
+import ExecutionPanel from './components/ExecutionPanel'
+import DateRangePicker from './components/DateRangePicker'
+import WalkForwardResults from './components/WalkForwardResults'
+import type { BatchRun } from './components/BatchResults'
+import HistorySidebar from './components/HistorySidebar'
+import CompareView from './components/CompareView'
+import type { CompareEntry } from './components/CompareView'
+import { useBacktestQueue } from './hooks/useBacktestQueue'
+import { useBackendStatus } from './hooks/useBackendStatus'
+import { useWalkForward } from './hooks/useWalkForward'
 import type { Time } from 'lightweight-charts'
+import type { BacktestPayload, BacktestResponse } from './types/backtest'
+import type { RunSummary } from './types/history'
+import type { Strategy } from './types/strategy'
+import { buildBacktestPayload, postBacktest } from './api/backtest'
+import type { RunSettings } from './api/backtest'
+import { ResponseValidationError } from './api/schema'
+import { isMockMode, MAX_RETRIES, setMockMode } from './api/client'
+import { buildRoundTrips } from './utils/trades'
+import type { RoundTrip } from './utils/trades'
+import { defaultParamInputs, longestLookback, normalizeStrategyCode, parseStrategyParams, toParamValues, validateParams } from './utils/strategyParams'
+import type { StrategyParam } from './utils/strategyParams'
+import { checkStrategySource, loadCustomStrategies, saveCustomStrategies } from './utils/customStrategies'
+import { loadChartStyles, saveChartStyles } from './utils/chartStyles'
+import { listingWarning, loadFavoriteSymbols, loadRecentSymbols, pushRecent, saveFavoriteSymbols, saveRecentSymbols, SYMBOL_UNIVERSE, symbolsBySector } from './utils/symbols'
+import type { SeriesStyle, SeriesStyles } from './utils/chartStyles'
+import { computePerformanceMetrics, drawdownSeries } from './utils/metrics'
+import { candlesToChartData, equityToChartData, indicatorsToChartData, toChartTime, tradesToMarkers } from './utils/chartData'
+import { bucketDatetime, DEFAULT_INTERVAL, INTERVALS, isIntraday, periodsPerYear, resamplePoints, resampleResponse, viewIntervalsFor } from './utils/timeframes'
+import type { Interval } from './utils/timeframes'
+import { buildBenchmarkEquity, compareToBenchmark } from './utils/benchmark'
+import { defaultSweepRange, expandGrid, expandRange, MAX_SWEEP_RUNS } from './utils/sweep'
+import type { SweepRange, SweepRun } from './utils/sweep'
+import type { QueuedRun } from './utils/queue'
+import { buildWindows, DEFAULT_WALK_FORWARD_FORM, MAX_WALK_FORWARD_RUNS, stitchOutOfSample, toWalkForwardSettings, validateWalkForward } from './utils/walkForward'
+import type { WalkForwardForm, WalkForwardResult } from './utils/walkForward'
+import { DEFAULT_EXECUTION_FORM, describeExecution, executionToForm, toExecutionSettings, validateExecution } from './utils/execution'
+import type { ExecutionForm } from './utils/execution'
+import { barsInRange, dataCutoff, formatDate, validateDateRange } from './utils/marketCalendar'
+import { deleteRun, listRuns, loadRun, saveAnnotations, saveRun, updateRun } from './utils/historyStore'
+import type { Annotation } from './utils/annotations'
+import { decodePermalink, encodePermalink } from './utils/permalink'
+import type { PermalinkConfig } from './utils/permalink'
+import { candlesCsv, downloadFile, equityCsv, exportFileName, parseRunJson, roundTripsCsv, runToJson } from './utils/exportData'
+
+// Quick picks for multi-symbol runs, from the universe's sectors so config additions show up too
+const SECTORS = symbolsBySector()
+const SYMBOL_PRESETS: Record<string, string[]> = {
+  'All': SYMBOL_UNIVERSE.map(symbol => symbol.ticker),
+  'Tech': SECTORS['Technology'] ?? [],
+  'ETFs': SECTORS['ETF'] ?? [],
+  'SPY only': ['SPY'],
+}
+
+//in react, ' vs "" make a huge difference bc of escape chars ==> TO FIX BACKEND QUIRK : normalize BEFORE accepting JSON
+/*
+correct fix (TODO in backend!!)
 
-const STOCK_SYMBOLS = [
-  'AAPL', 'GOOGL', 'MSFT', 'AMZN', 'TSLA', 'META', 'NVDA', 'JPM',
-  'V', 'WMT', 'JNJ', 'PG', 'DIS', 'NFLX', 'INTC', 'AMD',
-  'CSCO', 'PEP', 'KO', 'NKE', 'BA', 'IBM', 'GE', 'F', 'SPY'
-].sort()
+strategy_code = data["strategy_code"]
+strategy_code = strategy_code.encode("utf-8").decode("unicode_escape")
+
+*/
+// Only the bundled strat files need it - custom code from the editor is sent exactly as written
+const smaCrossoverSource = normalizeStrategyCode(smaCrossover)
+const bollingerBandsSource = normalizeStrategyCode(bollingerBands)
+const rsiOversoldSource = normalizeStrategyCode(rsiOversold)
 
-const STRATEGIES = [
+// params are read from the python 'params' tuple in each strat file, so the keys always match --> look at strats dir
+const STRATEGIES: Strategy[] = [
   { id: 'sma_crossover', 
     name: 'SMACrossover', //once more, name has to match class name (see python to see why)
     desc: 'Moving average cross',
-    code: smaCrossover,
-    params: {fast: 10, slow: 30} }, //params are based on python 'params' field so string of key MUST match --> look at strats dir & the params declaration there
+    code: smaCrossoverSource,
+    params: parseStrategyParams(smaCrossoverSource) },
 
   { id: 'bollinger_bands', 
     name: 'BollingerMeanReversion', //name MATTERS & must match code class name 
     desc: 'Mean reversion', 
-    code: bollingerBands,
-    params: {period: 20, devfactor: 2.0} },
+    code: bollingerBandsSource,
+    params: parseStrategyParams(bollingerBandsSource) },
 
   { id: 'rsi_oversold', 
     name: 'RSIOversold', 
     desc: 'RSI momentum', 
-    code: rsiOversold,
-    params: {period: 14, oversold: 30, overbought: 70} }
+    code: rsiOversoldSource,
+    params: parseStrategyParams(rsiOversoldSource) }
 ]
 
-// Backend candle format
-interface BackendCandle {
-  datetime: string
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-}
-
-// Backend equity point format
-interface EquityData {
-  datetime: string
-  equity: number
-}
-
-// Backend indicator data point (can have different fields per indicator)
-interface IndicatorDataPoint {
-  datetime: string
-  [key: string]: string | number | null  // Flexible for different indicator fields
-}
+type RunMode = 'single' | 'sweep' | 'batch' | 'walkforward'
 
-// Backend indicators (object with indicator names as keys)
-interface BackendIndicators {
-  [indicatorName: string]: IndicatorDataPoint[]
-}
+const RUN_MODES: { id: RunMode; label: string }[] = [
+  { id: 'single', label: 'Single run' },
+  { id: 'sweep', label: 'Parameter sweep' },
+  { id: 'batch', label: 'Multi-symbol' },
+  { id: 'walkforward', label: 'Walk-forward' },
+]
 
-// Backend trade signal
-interface TradeSignal {
-  datetime: string
-  type: 'buy' | 'sell'
-  price?: number
-}
+// Unsaved strategy being written in the editor (saved ones get their own custom_<timestamp> id)
+const CUSTOM_DRAFT_ID = 'custom'
 
-// Frontend chart format (for lightweight-charts)
-interface CandleData {
-  time: Time
-  open: number
-  high: number
-  low: number
-  close: number
-}
+// Stable empty list for results with no drawings, so the chart doesn't see a new array every render
+const NO_ANNOTATIONS: Annotation[] = []
 
-interface VolumeData {
-  time: Time
-  value: number
-  color?: string
+// Thousands separators for the capital input
+const formatAmount = (clean: string) => {
+  const parts = clean.split('.')
+  const integerPart = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ',')
+  return parts.length > 1 ? `${integerPart}.${parts[1]}` : integerPart
 }
 
-interface LineData {
-  time: Time
-  value: number
-}
-
-// Backend response
-interface BacktestResponse {
-  success: boolean
-  metrics: {
-    final_value: number
-    initial_value: number
-    max_drawdown: number
-    sharpe_ratio: number
-    total_return: number
-  }
-  strategy_name: string
-  candles: BackendCandle[]
-  equity: EquityData[]
-  indicators?: BackendIndicators
-  trades?: TradeSignal[]
+// Form state a permalink describes, resolved against the strategies this browser knows about
+function permalinkForm(link: PermalinkConfig, customStrategies: Strategy[]) {
+  const builtIn = link.code === undefined ? STRATEGIES.find(s => s.id === link.strategy) : undefined
+  const saved = link.code !== undefined ? customStrategies.find(s => s.code === link.code) : undefined
+  const params = link.code !== undefined ? checkStrategySource(link.code).params : builtIn?.params ?? []
+  const amount = /^\d*\.?\d*$/.test(link.amount) ? link.amount : ''
+
+  return {
+    strategyId: link.code !== undefined ? saved?.id ?? CUSTOM_DRAFT_ID : builtIn?.id ?? '',
+    code: link.code,
+    // Start from the source defaults so a link missing a param still gets a complete form
+    paramInputs: {
+      ...defaultParamInputs(params),
+      ...Object.fromEntries(Object.entries(link.params).filter(([name]) => params.some(p => p.name === name)))
+    },
+    symbol: link.symbol,
+    startDate: link.startDate,
+    endDate: link.endDate,
+    amount,
+    interval: link.interval,
+    execution: link.execution,
+    autoRun: link.autoRun
+  }
 }
 
 function App() {
-  const [selectedStrategy, setSelectedStrategy] = useState('')
-  const [amount, setAmount] = useState('')
-  const [displayAmount, setDisplayAmount] = useState('')
-  const [startDate, setStartDate] = useState('')
-  const [endDate, setEndDate] = useState('')
-  const [stock, setStock] = useState('')
+  // Opening a permalink fills the form straight away instead of flashing an empty one
+  const [initialForm] = useState(() => {
+    const link = decodePermalink(window.location.search)
+    return link && permalinkForm(link, loadCustomStrategies())
+  })
+  const [selectedStrategy, setSelectedStrategy] = useState(initialForm?.strategyId ?? '')
+  const [amount, setAmount] = useState(initialForm?.amount ?? '')
+  const [displayAmount, setDisplayAmount] = useState(formatAmount(initialForm?.amount ?? ''))
+  const [startDate, setStartDate] = useState(initialForm?.startDate ?? '')
+  const [endDate, setEndDate] = useState(initialForm?.endDate ?? '')
+  const [stock, setStock] = useState(initialForm?.symbol ?? '')
+  const [favoriteSymbols, setFavoriteSymbols] = useState<string[]>(loadFavoriteSymbols)
+  const [recentSymbols, setRecentSymbols] = useState<string[]>(loadRecentSymbols)
+  const [barInterval, setBarInterval] = useState<Interval>(initialForm?.interval ?? DEFAULT_INTERVAL)
+  const [executionInputs, setExecutionInputs] = useState<ExecutionForm>(initialForm?.execution ?? DEFAULT_EXECUTION_FORM)
+  const [viewInterval, setViewInterval] = useState<Interval | null>(null)  // Resample the results for viewing; null = as run
   const [error, setError] = useState('')
   const [showResults, setShowResults] = useState(false)
   const [loading, setLoading] = useState(false)
   const [results, setResults] = useState<BacktestResponse | null>(null)
+  const [resultsPayload, setResultsPayload] = useState<BacktestPayload | null>(null)  // Request behind `results`, for exports
   const [apiError, setApiError] = useState('')
-
-  // Calculate max date (2 months ago from today)
-  const getMaxDate = () => {
-    const today = new Date()
-    today.setMonth(today.getMonth() - 2)
-    return today.toISOString().split('T')[0]
+  const [apiIssues, setApiIssues] = useState<string[]>([])  // Field-level problems when the response fails validation
+  const [focusRange, setFocusRange] = useState<{ from: Time; to: Time } | null>(null)
+  const [paramInputs, setParamInputs] = useState<Record<string, string>>(initialForm?.paramInputs ?? {})
+  const [customStrategies, setCustomStrategies] = useState<Strategy[]>(loadCustomStrategies)
+  const [customSaveError, setCustomSaveError] = useState<string | null>(null)
+  const [chartStyles, setChartStyles] = useState<Record<string, SeriesStyles>>(loadChartStyles)
+  const [editorCode, setEditorCode] = useState(initialForm?.code ?? customTemplate)
+  const [mode, setMode] = useState<RunMode>('single')
+  const [sweepRanges, setSweepRanges] = useState<Record<string, SweepRange>>({})
+  const [sweepConcurrency, setSweepConcurrency] = useState(3)
+  const sweep = useBacktestQueue<SweepRun>()
+  const [batchSymbols, setBatchSymbols] = useState<string[]>([])
+  const [batchConcurrency, setBatchConcurrency] = useState(3)
+  const batch = useBacktestQueue<BatchRun>()
+  const [walkForwardInputs, setWalkForwardInputs] = useState<WalkForwardForm>(DEFAULT_WALK_FORWARD_FORM)
+  const [walkForwardRun, setWalkForwardRun] = useState<BacktestResponse | null>(null)  // Stitched OOS run, while it's the one shown
+  const walkForward = useWalkForward()
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [mockMode, setMockModeState] = useState(isMockMode)
+  const [historyRuns, setHistoryRuns] = useState<RunSummary[]>([])
+  const [activeRunId, setActiveRunId] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [compareEntries, setCompareEntries] = useState<CompareEntry[] | null>(null)
+  const savedResponses = useRef(new WeakSet<BacktestResponse>())  // Queue runs already written to history
+  const runIds = useRef(new WeakMap<BacktestResponse, string>())  // History id of each saved response, once written
+  const pendingAnnotations = useRef(new WeakMap<BacktestResponse, Annotation[]>())  // Drawn while the save was in flight
+  const [runAnnotations, setRunAnnotations] = useState<{ results: BacktestResponse | null; annotations: Annotation[] }>({ results: null, annotations: [] })
+  const runControllerRef = useRef<AbortController | null>(null)  // In-flight single run, aborted by Cancel or a newer run
+  const [runStartedAt, setRunStartedAt] = useState<number | null>(null)
+  const [now, setNow] = useState(0)
+  const [retryStatus, setRetryStatus] = useState('')
+  const backend = useBackendStatus()
+  const [shareAutoRun, setShareAutoRun] = useState(false)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const urlSyncedRef = useRef(false)
+  const restoringRef = useRef(false)  // Set while back/forward is restoring the form, so it doesn't push a new entry
+  const autoRunRef = useRef(initialForm?.autoRun ?? false)
+  const chartHandleRef = useRef<ChartHandle>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const refreshHistory = () => {
+    listRuns()
+      .then(setHistoryRuns)
+      .catch(err => console.error('Failed to load run history:', err))
   }
 
-  const maxDate = getMaxDate()
+  useEffect(refreshHistory, [])
 
-  // Validate date is not within past 2 months
-  const isDateValid = (dateStr: string) => {
-    if (!dateStr) return true
-    const selectedDate = new Date(dateStr)
-    const maxAllowedDate = new Date(maxDate)
-    return selectedDate <= maxAllowedDate
-  }
+  // Tick once a second while a run is in flight so the elapsed time stays current
+  useEffect(() => {
+    if (runStartedAt === null) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [runStartedAt])
 
-  const handleStartDate = (dateStr: string) => {
-    if (isDateValid(dateStr)) {
-      setStartDate(dateStr)
-    }
-  }
+  const elapsedSeconds = runStartedAt === null ? 0 : Math.max(0, Math.floor((now - runStartedAt) / 1000))
 
-  const handleEndDate = (dateStr: string) => {
-    if (isDateValid(dateStr)) {
-      setEndDate(dateStr)
-    }
+  // Latest date with data (the backend lags ~2 months); fixed for the session so the form doesn't shift under you
+  const [maxDate] = useState(() => dataCutoff(new Date()))
+
+  const handleDates = (start: string, end: string) => {
+    setStartDate(start)
+    setEndDate(end)
   }
 
   const handleAmount = (val: string) => {
@@ -159,225 +254,716 @@ function App() {
       setAmount(clean)
       setError('')
 
-      // Format the display value
-      const parts = clean.split('.')
-      const integerPart = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ',')
-      const formatted = parts.length > 1 ? `${integerPart}.${parts[1]}` : integerPart
-      setDisplayAmount(formatted)
+      setDisplayAmount(formatAmount(clean))
     } else {
       setError('Invalid number')
     }
   }
 
-  const isValid = selectedStrategy && amount && startDate && endDate && stock && !error
+  // Custom strategies (draft or saved) always run whatever is currently in the editor
+  const isCustomSelected = selectedStrategy === CUSTOM_DRAFT_ID || customStrategies.some(s => s.id === selectedStrategy)
+  const sourceCheck = checkStrategySource(editorCode)
+
+  const currentStrategy: Strategy | undefined = isCustomSelected
+    ? {
+        id: selectedStrategy,
+        name: sourceCheck.className ?? '',
+        desc: 'Custom strategy',
+        code: editorCode,
+        params: sourceCheck.params,
+        custom: true
+      }
+    : STRATEGIES.find(s => s.id === selectedStrategy)
+
+  const paramErrors = currentStrategy ? validateParams(currentStrategy.params, paramInputs) : {}
+  const strategyErrors = isCustomSelected ? sourceCheck.errors : []
+  const executionErrors = validateExecution(executionInputs)
+
+  // Selecting a strategy resets its parameter form to the defaults from the source
+  const selectStrategy = (id: string) => {
+    const saved = customStrategies.find(s => s.id === id)
+    let params: StrategyParam[] = STRATEGIES.find(s => s.id === id)?.params ?? []
+
+    if (saved) {
+      setEditorCode(saved.code)
+      params = checkStrategySource(saved.code).params
+    } else if (id === CUSTOM_DRAFT_ID) {
+      params = sourceCheck.params
+    }
 
-  const runBacktest = async () => {
-    if (!isValid) return
+    setSelectedStrategy(id)
+    setParamInputs(defaultParamInputs(params))
+    setSweepRanges({})
+  }
 
-    setLoading(true)
-    setApiError('')
-    setShowResults(false)
-    setResults(null)
+  // Editing the source keeps values already typed for params that still exist
+  const handleEditorChange = (code: string) => {
+    setEditorCode(code)
+    const params = checkStrategySource(code).params
+    setParamInputs(prev => ({ ...defaultParamInputs(params), ...Object.fromEntries(
+      Object.entries(prev).filter(([name]) => params.some(p => p.name === name))
+    ) }))
+  }
+
+  const saveCustomStrategy = () => {
+    if (!sourceCheck.className || sourceCheck.errors.length > 0) return
+
+    const existing = customStrategies.find(s => s.id === selectedStrategy)
+    const strategy: Strategy = {
+      id: existing?.id ?? `custom_${Date.now()}`,
+      name: sourceCheck.className,
+      desc: 'Custom strategy',
+      code: editorCode,
+      params: sourceCheck.params,
+      custom: true
+    }
+
+    const next = existing
+      ? customStrategies.map(s => s.id === existing.id ? strategy : s)
+      : [...customStrategies, strategy]
+
+    setCustomStrategies(next)
+    setCustomSaveError(saveCustomStrategies(next))
+    setSelectedStrategy(strategy.id)
+  }
+
+  const deleteCustomStrategy = () => {
+    const next = customStrategies.filter(s => s.id !== selectedStrategy)
+    setCustomStrategies(next)
+    setCustomSaveError(saveCustomStrategies(next))
+    setSelectedStrategy(CUSTOM_DRAFT_ID)
+  }
+
+  // Legend edits are remembered per strategy, so SMACrossover's colors don't leak onto RSIOversold's lines
+  const chartStyleKey = resultsPayload?.strategy_name ?? ''
+  const updateSeriesStyle = (key: string, style: SeriesStyle) => {
+    const forStrategy = chartStyles[chartStyleKey] ?? {}
+    const next = { ...chartStyles, [chartStyleKey]: { ...forStrategy, [key]: { ...forStrategy[key], ...style } } }
+    setChartStyles(next)
+    saveChartStyles(next)
+  }
 
+  const selectSymbol = (ticker: string) => {
+    setStock(ticker)
+    const next = pushRecent(recentSymbols, ticker)
+    setRecentSymbols(next)
+    saveRecentSymbols(next)
+  }
+
+  const toggleFavoriteSymbol = (ticker: string) => {
+    const next = favoriteSymbols.includes(ticker)
+      ? favoriteSymbols.filter(t => t !== ticker)
+      : [...favoriteSymbols, ticker]
+    setFavoriteSymbols(next)
+    saveFavoriteSymbols(next)
+  }
+
+  const handleParam = (name: string, value: string) => {
+    setParamInputs(prev => ({ ...prev, [name]: value }))
+  }
+
+  // Sweep ranges default to the source default ± 50% until edited
+  const effectiveRanges: Record<string, SweepRange> = Object.fromEntries(
+    (currentStrategy?.params ?? []).map(p => [p.name, sweepRanges[p.name] ?? defaultSweepRange(p)])
+  )
+  const sweepGrid = (mode === 'sweep' || mode === 'walkforward') && currentStrategy ? expandGrid(currentStrategy.params, effectiveRanges) : null
+  const sweepCombos = sweepGrid?.combos ?? []
+  // An oversized grid isn't expanded, so its raw size stands in for the run count
+  const sweepRunCount = sweepGrid?.tooLarge ? sweepGrid.size : sweepCombos.length
+  const walkForwardErrors = mode === 'walkforward' ? validateWalkForward(walkForwardInputs) : {}
+  const walkForwardSettings = Object.keys(walkForwardErrors).length === 0 ? toWalkForwardSettings(walkForwardInputs) : null
+  const dateErrors = validateDateRange(startDate, endDate, maxDate, barInterval)
+  const datesValid = Object.keys(dateErrors).length === 0
+  const walkForwardWindows = mode === 'walkforward' && walkForwardSettings && datesValid ? buildWindows(startDate, endDate, walkForwardSettings) : []
+  const walkForwardRuns = walkForwardWindows.length * (sweepRunCount + 1)
+  const tooManyRuns = mode === 'sweep' ? sweepRunCount > MAX_SWEEP_RUNS : mode === 'walkforward' && walkForwardRuns > MAX_WALK_FORWARD_RUNS
+
+  // Warn when the range is too short for the strategy to get past its warm-up (sweeps: the largest value tried)
+  // Counting bars walks every day of the range, so it's only redone when the range or bar size changes
+  const barCount = useMemo(
+    () => startDate && endDate && datesValid ? barsInRange(startDate, endDate, barInterval) : null,
+    [startDate, endDate, barInterval, datesValid]
+  )
+  const lookback = currentStrategy
+    ? longestLookback(currentStrategy.params, mode === 'sweep' || mode === 'walkforward'
+      ? Object.fromEntries(currentStrategy.params.map(p => [p.name, Math.max(...expandRange(effectiveRanges[p.name]))]))
+      : toParamValues(currentStrategy.params, paramInputs))
+    : null
+  const symbolWarning = mode === 'batch' ? null : listingWarning(stock, startDate)
+
+  // Batch mode picks its symbols in the batch panel instead of the Stock select
+  const baseValid = selectedStrategy && amount && startDate && endDate && (stock || mode === 'batch') && !error && strategyErrors.length === 0
+    && Object.keys(executionErrors).length === 0 && datesValid
+  const isValid = mode === 'sweep'
+    ? baseValid && sweepCombos.length > 0 && !tooManyRuns
+    : mode === 'walkforward'
+      ? baseValid && sweepCombos.length > 0 && walkForwardWindows.length > 0 && !tooManyRuns
+      : mode === 'batch'
+        ? baseValid && Object.keys(paramErrors).length === 0 && batchSymbols.length > 0
+        : baseValid && Object.keys(paramErrors).length === 0
+
+  // Form values every kind of run shares (only call once the form is valid)
+  const runSettings = (): RunSettings => ({
+    stock,
+    startDate,
+    endDate,
+    amount: parseFloat(amount),
+    interval: barInterval,
+    execution: toExecutionSettings(executionInputs)
+  })
+
+  // Write a finished run to IndexedDB (fire and forget - a failed save shouldn't break the results view)
+  const persistRun = (payload: BacktestPayload, response: BacktestResponse, durationMs: number) => {
+    savedResponses.current.add(response)
+    saveRun(payload, response, durationMs)
+      .then(summary => {
+        runIds.current.set(response, summary.id)
+        const pending = pendingAnnotations.current.get(response)
+        if (pending) {
+          pendingAnnotations.current.delete(response)
+          saveAnnotations(summary.id, pending).catch(err => console.error('Failed to save annotations:', err))
+        }
+        setActiveRunId(summary.id)
+        refreshHistory()
+      })
+      .catch(err => console.error('Failed to save run to history:', err))
+  }
+
+  // Sweep/batch runs only go into history once someone actually opens them. Saving every row would let one
+  // big sweep fill the history cap and prune away the runs started by hand
+  const persistQueuedRun = (run: QueuedRun) => {
+    const { payload, response } = run
+    if (!payload || !response) return
+    if (!savedResponses.current.has(response)) {
+      persistRun(payload, response, run.durationMs ?? 0)
+      return
+    }
+
+    // Opened before: point back at its history entry and bring back anything drawn on it
+    const id = runIds.current.get(response)
+    if (!id) return
+    setActiveRunId(id)
+    loadRun(id)
+      .then(stored => setRunAnnotations({ results: response, annotations: stored?.annotations ?? [] }))
+      .catch(err => console.error('Failed to load annotations:', err))
+  }
+
+  // Put the form back the way it was when a payload was sent
+  const applyPayload = (payload: BacktestPayload) => {
+    const builtIn = STRATEGIES.find(s => s.name === payload.strategy_name)
+    const saved = customStrategies.find(s => s.name === payload.strategy_name && s.code === payload.strategy_code)
+
+    if (builtIn) {
+      setSelectedStrategy(builtIn.id)
+    } else if (saved) {
+      setSelectedStrategy(saved.id)
+      setEditorCode(saved.code)
+    } else {
+      setSelectedStrategy(CUSTOM_DRAFT_ID)
+      setEditorCode(payload.strategy_code)
+    }
+
+    setParamInputs(Object.fromEntries(Object.entries(payload.strategy_params).map(([k, v]) => [k, String(v)])))
+    setStock(payload.data_source)
+    setStartDate(payload.start_date)
+    setEndDate(payload.end_date)
+    setBarInterval(payload.interval ?? DEFAULT_INTERVAL)
+    setExecutionInputs(executionToForm(payload.execution))
+    handleAmount(String(payload.initial_cash))
+  }
+
+  // View a run exported earlier as JSON, no backend needed
+  const importRun = async (file: File) => {
     try {
-      const strategy = STRATEGIES.find(s => s.id === selectedStrategy)
-      if (!strategy) throw new Error('Strategy not found')
+      const { payload, response, annotations } = parseRunJson(await file.text())
+      setMode('single')
+      setCompareEntries(null)
+      applyPayload(payload)
+      setApiError('')
+      setResults(response)
+      setResultsPayload(payload)
+      setRunAnnotations({ results: response, annotations })
+      setFocusRange(null)
+      setShowResults(true)
+      setActiveRunId(null)
+    } catch (err) {
+      setApiError(`Import failed: ${err instanceof Error ? err.message : String(err)}`)
+      setApiIssues(err instanceof ResponseValidationError ? err.issues : [])
+    }
+  }
 
-      // Build the payload by merging the strategy config with user inputs 
+  const openHistoryRun = async (summary: RunSummary) => {
+    try {
+      const stored = await loadRun(summary.id)
+      if (!stored) throw new Error('Run not found in local history')
+
+      setMode('single')
+      setCompareEntries(null)
+      applyPayload(stored.payload)
+      setApiError('')
+      setResults(stored.response)
+      setResultsPayload(stored.payload)
+      setRunAnnotations({ results: stored.response, annotations: stored.annotations ?? [] })
+      runIds.current.set(stored.response, summary.id)
+      setFocusRange(null)
+      setShowResults(true)
+      setActiveRunId(summary.id)
+    } catch (err) {
+      setApiError(err instanceof Error ? err.message : 'Failed to open run')
+      setApiIssues([])
+    }
+  }
 
-      /*
-      const payload = {
+  const renameHistoryRun = (run: RunSummary, name: string) => {
+    updateRun(run.id, { name }).then(refreshHistory).catch(err => console.error('Failed to rename run:', err))
+  }
 
-        strategy_code: strategy.code,
-        strategy_name: strategy.name,
-        strategy_params: {"period": 10, "devfactor": 2.0}, //ALL need to have params field!!!
-        data_source: stock,
-        start_date: startDate,
-        end_date: endDate,
-        initial_cash: parseFloat(amount)
+  const tagHistoryRun = (run: RunSummary, tags: string[]) => {
+    updateRun(run.id, { tags }).then(refreshHistory).catch(err => console.error('Failed to tag run:', err))
+  }
 
-      }
-*/
+  const deleteHistoryRun = (run: RunSummary) => {
+    deleteRun(run.id).then(refreshHistory).catch(err => console.error('Failed to delete run:', err))
+    if (activeRunId === run.id) setActiveRunId(null)
+    setCompareIds(prev => prev.filter(id => id !== run.id))
+  }
 
-      //in react, ' vs "" make a huge difference bc of escape chars ==> TO FIX BACKEND QUIRK : normalize BEFORE accepting JSON
-      /*
-      correct fix (TODO in backend!!)
-      
-      strategy_code = data["strategy_code"]
-      strategy_code = strategy_code.encode("utf-8").decode("unicode_escape")
+  const toggleCompare = (run: RunSummary) => {
+    setCompareIds(prev => prev.includes(run.id) ? prev.filter(id => id !== run.id) : [...prev, run.id])
+  }
 
-      */
-      const payload = {
+  // Load the full stored results for every ticked run and switch to the compare view
+  const openCompare = async () => {
+    try {
+      const entries = await Promise.all(compareIds.map(async id => {
+        const summary = historyRuns.find(run => run.id === id)
+        const stored = await loadRun(id)
+        if (!summary || !stored) throw new Error('Run not found in local history')
+        return { summary, stored }
+      }))
+      setApiError('')
+      setCompareEntries(entries)
+      setHistoryOpen(false)
+    } catch (err) {
+      setApiError(err instanceof Error ? err.message : 'Failed to load runs for comparison')
+      setApiIssues([])
+    }
+  }
 
-        strategy_code: strategy.code.replace(/\\n/g, '\n'),
-        strategy_name: strategy.name, //NEEDS TO MATCH CLASS NAME (look at structure above)
-        strategy_params: strategy.params, //ALL need to have params field (request structure above)!!!
-        data_source: stock,
-        start_date: startDate,
-        end_date: endDate,
-        initial_cash: parseFloat(amount)
+  const runSweep = () => {
+    if (!isValid || !currentStrategy) return
 
-      }
+    setShowResults(false)
+    setResults(null)
+    setApiError('')
+    const strategy = currentStrategy
+    const settings = runSettings()
+    sweep.start(
+      sweepCombos.map(params => ({ params, status: 'pending' })),
+      run => buildBacktestPayload(strategy, run.params, settings),
+      sweepConcurrency
+    )
+  }
 
-      //another 'quirk', randomly some dates don't work?
+  // Open one sweep run in the regular chart/results view
+  const openSweepRun = (run: SweepRun) => {
+    if (!run.response) return
+    persistQueuedRun(run)
+    setParamInputs(Object.fromEntries(Object.entries(run.params).map(([k, v]) => [k, String(v)])))
+    setResults(run.response)
+    setResultsPayload(run.payload ?? null)
+    setFocusRange(null)
+    setShowResults(true)
+  }
 
-      console.log('Backtest payload:', payload)
+  // Same strategy, params, dates and capital on every selected symbol
+  const runBatch = () => {
+    if (!isValid || !currentStrategy) return
 
-      const PROD_API_URL = 'https://backtesting-mini-engine-v1-hc8o.onrender.com/backtest'
-      //const TEST_API_URL = 'http://127.0.0.1:8000/backtest'
+    setShowResults(false)
+    setResults(null)
+    setApiError('')
 
-      // Choose which API to use
-      const API_URL = PROD_API_URL  // Change to PROD_API_URL for production
+    const strategy = currentStrategy
+    const params = toParamValues(strategy.params, paramInputs)
+    const settings = runSettings()
+    batch.start(
+      [...batchSymbols].sort().map(symbol => ({ symbol, status: 'pending' })),
+      run => buildBacktestPayload(strategy, params, { ...settings, stock: run.symbol }),
+      batchConcurrency
+    )
+  }
 
-      console.log('Calling backend at:', API_URL)
+  // Drill down into one symbol's full chart
+  const openBatchRun = (run: BatchRun) => {
+    if (!run.response) return
+    persistQueuedRun(run)
+    setStock(run.symbol)
+    setResults(run.response)
+    setResultsPayload(run.payload ?? null)
+    setFocusRange(null)
+    setShowResults(true)
+  }
 
-      const response = await fetch(API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload)
-      })
+  // Sweep every in-sample window, run each winner out of sample, then show the OOS runs stitched together
+  const runWalkForward = async () => {
+    if (!isValid || !currentStrategy) return
 
-      console.log('Response status:', response.status, response.statusText)
-
-      if (!response.ok) {
-        // Try to get error details from response
-        let errorDetail = `${response.status} ${response.statusText}`
-        try {
-          const errorJson = await response.json()
-          console.error('Backend error details:', errorJson)
-          errorDetail = errorJson.detail || errorJson.message || JSON.stringify(errorJson)
-        } catch (e) {
-          const errorText = await response.text()
-          console.error('Backend error text:', errorText)
-          errorDetail = errorText || errorDetail
-        }
-        throw new Error(`API Error: ${errorDetail}`)
-      }
+    setShowResults(false)
+    setResults(null)
+    setWalkForwardRun(null)
+    setApiError('')
+
+    const strategy = currentStrategy
+    const windows = walkForwardWindows
+    const settings = runSettings()
+    const finished = await walkForward.start(
+      windows,
+      sweepCombos,
+      (params, range) => buildBacktestPayload(strategy, params, { ...settings, startDate: range.start, endDate: range.end }),
+      walkForwardInputs.metric,
+      sweepConcurrency
+    )
+    if (!finished) return
+
+    const stitched = stitchOutOfSample(finished, settings.amount, periodsPerYear(barInterval))
+    const lastBest = [...finished].reverse().find(result => result.best)?.best
+    if (!stitched || !lastBest) {
+      setApiError('Walk-forward failed: no out-of-sample run succeeded')
+      setApiIssues([])
+      return
+    }
+
+    // Not saved to history - no single payload reproduces a stitched run. Exports use the latest params
+    setResults(stitched)
+    setResultsPayload(buildBacktestPayload(strategy, lastBest.params, {
+      ...settings,
+      startDate: windows[0].outOfSample.start,
+      endDate: windows[windows.length - 1].outOfSample.end
+    }))
+    setWalkForwardRun(stitched)
+    setFocusRange(null)
+    setShowResults(true)
+    setActiveRunId(null)
+  }
+
+  const runBacktest = async () => {
+    if (!isValid) return
+
+    // A new run replaces whatever is still in flight
+    runControllerRef.current?.abort()
+    const controller = new AbortController()
+    runControllerRef.current = controller
+    const startedAt = Date.now()
+
+    setLoading(true)
+    setRunStartedAt(startedAt)
+    setNow(startedAt)
+    setRetryStatus('')
+    setApiError('')
+    setShowResults(false)
+    setResults(null)
+    setFocusRange(null)
+    setActiveRunId(null)
 
-      const json = await response.json()
-      const data = json as BacktestResponse
-      console.log('Raw backend response:', json)
+    try {
+      const strategy = currentStrategy
+      if (!strategy) throw new Error('Strategy not found')
+
+      const payload = buildBacktestPayload(strategy, toParamValues(strategy.params, paramInputs), runSettings())
+
+      console.log('Backtest payload:', payload)
+
+      const data = await postBacktest(payload, {
+        signal: controller.signal,
+        onRetry: (attempt, delayMs, err) =>
+          setRetryStatus(`${err.message} - retry ${attempt} of ${MAX_RETRIES} in ${Math.round(delayMs / 1000)}s`)
+      })
+      backend.markReady()
       console.log('Backtest results:', data)
       console.log('Indicators received:', data.indicators)
       console.log('Trades received:', data.trades)
 
       setResults(data)
+      setResultsPayload(payload)
       setShowResults(true)
+      persistRun(payload, data, Date.now() - startedAt)
     } 
     
     catch (err) {
+      if (controller.signal.aborted) return  // Cancelled or superseded, not a failure
       setApiError(err instanceof Error ? err.message : 'Failed to run backtest')
+      setApiIssues(err instanceof ResponseValidationError ? err.issues : [])
       console.error('Backtest error:', err)
 
     } finally {
-      setLoading(false)
+      if (runControllerRef.current === controller) {
+        runControllerRef.current = null
+        setLoading(false)
+        setRunStartedAt(null)
+      }
     }
   }
 
-  // Convert backend candle data to frontend chart format
-  const convertCandlesToChartData = (candles: BackendCandle[]) => {
-    // Filter out any candles with invalid datetime and convert to proper format
-    const priceData: CandleData[] = candles
-      .filter(candle => candle.datetime)
-      .map(candle => {
-        // Extract just the date part (YYYY-MM-DD) from dat
-        // etime string
-        // This handles both 'YYYY-MM-DD' and 'YYYY-MM-DDTHH:MM:SS' formats
-        const dateStr = candle.datetime.split('T')[0] as Time
-        return {
-          time: dateStr,
-          open: candle.open,
-          high: candle.high,
-          low: candle.low,
-          close: candle.close
-        }
-      })
+  const toggleMockMode = () => {
+    setMockMode(!mockMode)
+    setMockModeState(!mockMode)
+  }
 
-    const volumeData: VolumeData[] = candles
-      .filter(candle => candle.datetime)
-      .map(candle => {
-        const dateStr = candle.datetime.split('T')[0] as Time
-        return {
-          time: dateStr,
-          value: candle.volume
-        }
-      })
+  const cancelBacktest = () => {
+    runControllerRef.current?.abort()
+    runControllerRef.current = null
+    setLoading(false)
+    setRunStartedAt(null)
+  }
 
-    return { priceData, volumeData }
+  // Shown while a single run is in flight
+  const runStatus = retryStatus
+    || (backend.status === 'waking' || (backend.status !== 'ready' && elapsedSeconds >= 5)
+      ? 'Server waking up - the first request after idle can take up to a minute'
+      : backend.status === 'unreachable' ? 'Backend did not answer the warm-up ping' : '')
+
+  // The form as a permalink (custom strategies carry their source, since it only exists in this browser)
+  const linkConfig: PermalinkConfig = {
+    strategy: isCustomSelected ? CUSTOM_DRAFT_ID : selectedStrategy,
+    code: isCustomSelected ? editorCode : undefined,
+    params: paramInputs,
+    symbol: stock,
+    startDate,
+    endDate,
+    amount,
+    interval: barInterval,
+    execution: executionInputs,
+    autoRun: false
+  }
+  const permalink = encodePermalink(linkConfig)
+
+  // Put the form in the state a URL describes (null = the empty form)
+  const applyPermalink = (link: PermalinkConfig | null) => {
+    const form = link ? permalinkForm(link, customStrategies) : null
+    setSelectedStrategy(form?.strategyId ?? '')
+    if (form?.code !== undefined) setEditorCode(form.code)
+    setParamInputs(form?.paramInputs ?? {})
+    setSweepRanges({})
+    setStock(form?.symbol ?? '')
+    setStartDate(form?.startDate ?? '')
+    setEndDate(form?.endDate ?? '')
+    setBarInterval(form?.interval ?? DEFAULT_INTERVAL)
+    setExecutionInputs(form?.execution ?? DEFAULT_EXECUTION_FORM)
+    handleAmount(form?.amount ?? '')
   }
 
-  // Convert backend equity data to frontend chart format
-  const convertEquityToChartData = (equity: EquityData[]) => {
-    return equity
-      .filter(point => point.datetime)
-      .map(point => {
-        const dateStr = point.datetime.split('T')[0] as Time
-        return {
-          time: dateStr,
-          value: point.equity
-        }
+  // Keep the URL in step with the form. Edits are pushed as a history entry once they settle, so
+  // back/forward steps between configurations rather than keystrokes.
+  useEffect(() => {
+    const replace = !urlSyncedRef.current || restoringRef.current
+    urlSyncedRef.current = true
+    restoringRef.current = false
+    if (permalink === window.location.search) return
+
+    const url = `${window.location.pathname}${permalink}${window.location.hash}`
+    if (replace) {
+      window.history.replaceState(null, '', url)  // Also drops `run=1` after an auto-run link is opened
+      return
+    }
+    const timer = setTimeout(() => window.history.pushState(null, '', url), 800)
+    return () => clearTimeout(timer)
+  }, [permalink])
+
+  const applyPermalinkRef = useRef(applyPermalink)
+  useEffect(() => {
+    applyPermalinkRef.current = applyPermalink
+  })
+
+  useEffect(() => {
+    const onPopState = () => {
+      restoringRef.current = true
+      applyPermalinkRef.current(decodePermalink(window.location.search))
+    }
+    window.addEventListener('popstate', onPopState)
+    return () => window.removeEventListener('popstate', onPopState)
+  }, [])
+
+  // Links made with "auto-run" start the backtest once, on load, if the form they fill in is complete
+  useEffect(() => {
+    if (!autoRunRef.current) return
+    autoRunRef.current = false
+    if (isValid) runBacktest()
+  })
+
+  const copyPermalink = () => {
+    const url = `${window.location.origin}${window.location.pathname}${encodePermalink({ ...linkConfig, autoRun: shareAutoRun })}`
+    navigator.clipboard.writeText(url)
+      .then(() => {
+        setLinkCopied(true)
+        setTimeout(() => setLinkCopied(false), 2000)
       })
+      .catch(err => console.error('Failed to copy link:', err))
   }
 
-  // Convert backend indicators to frontend chart format
-  const convertIndicatorsToChartData = (indicators: BackendIndicators) => {
-    const result: { [indicatorName: string]: { [lineName: string]: LineData[] } } = {}
+  // Everything derived from the results is memoized: the chart diffs its props by identity, so
+  // fresh arrays on every keystroke would make it redraw (and these are O(bars) on long runs)
+  const initialCash = results ? results.metrics.initial_value || parseFloat(amount) : 0
+  const runInterval = resultsPayload?.interval ?? DEFAULT_INTERVAL
+  const annualization = periodsPerYear(runInterval)
+
+  // Client-side analytics derived from the equity curve and trade stream (always at the run's own interval)
+  const roundTrips = useMemo(() => results
+    ? buildRoundTrips(results.trades || [], results.candles || [], results.equity || [], initialCash)
+    : [], [results, initialCash])
+  const performance = useMemo(
+    () => results ? computePerformanceMetrics(results.equity || [], roundTrips, annualization) : null,
+    [results, roundTrips, annualization]
+  )
+
+  // The chart can show the run resampled to a coarser interval (e.g. 1m bars viewed hourly)
+  const shownInterval = viewInterval && viewIntervalsFor(runInterval).some(i => i.id === viewInterval) ? viewInterval : runInterval
+  const resampled = shownInterval !== runInterval
+  const intraday = isIntraday(shownInterval)
+  const chartResults = useMemo(
+    () => results && resampled ? resampleResponse(results, shownInterval) : results,
+    [results, resampled, shownInterval]
+  )
 
-    console.log('Converting indicators:', indicators)
+  const chartData = useMemo(() => candlesToChartData(chartResults?.candles || [], intraday), [chartResults, intraday])
+  const indicatorsData = useMemo(() => indicatorsToChartData(chartResults?.indicators || {}, intraday), [chartResults, intraday])
+  const tradeMarkers = useMemo(() => tradesToMarkers(chartResults?.trades || [], intraday), [chartResults, intraday])
+
+  // Underwater curve for the drawdown pane
+  const equityChartData = useMemo(() => equityToChartData(chartResults?.equity || [], intraday), [chartResults, intraday])
+  const drawdownData = useMemo(() => {
+    const drawdowns = drawdownSeries(equityChartData.map(point => point.value))
+    return equityChartData.map((point, i) => ({ time: point.time, value: drawdowns[i] }))
+  }, [equityChartData])
+
+  // Buy-and-hold of the same symbol, same dates, same capital
+  const benchmarkEquity = useMemo(() => results ? buildBenchmarkEquity(results.candles || [], initialCash) : [], [results, initialCash])
+  const benchmarkChartData = useMemo(
+    () => equityToChartData(resampled ? resamplePoints(benchmarkEquity, shownInterval) : benchmarkEquity, intraday),
+    [benchmarkEquity, resampled, shownInterval, intraday]
+  )
+  const benchmark = useMemo(
+    () => results ? compareToBenchmark(results.equity || [], benchmarkEquity, annualization) : null,
+    [results, benchmarkEquity, annualization]
+  )
 
-    for (const [indicatorName, dataPoints] of Object.entries(indicators)) {
-      result[indicatorName] = {}
+  // Backend datetimes onto the chart's bars (the bars they fell in, if resampled)
+  const chartTime = useCallback(
+    (key: string) => toChartTime(resampled ? bucketDatetime(key, shownInterval) : key, intraday),
+    [resampled, shownInterval, intraday]
+  )
 
-      // Determine what fields this indicator has (excluding datetime)
-      const samplePoint = dataPoints.find(p => p.datetime)
-      if (!samplePoint) {
-        console.log(`No valid sample point for ${indicatorName}`)
-        continue
-      }
+  // Walk-forward runs get their out-of-sample windows shaded on the chart
+  const timeBands = useMemo(() => {
+    if (!results || results !== walkForwardRun) return []
+    return walkForward.results.flatMap(result => {
+      const candles = result.oos.response?.candles ?? []
+      return candles.length > 0
+        ? [{ from: chartTime(candles[0].datetime), to: chartTime(candles[candles.length - 1].datetime), label: `OOS ${result.index + 1}` }]
+        : []
+    })
+  }, [results, walkForwardRun, walkForward.results, chartTime])
+
+  // Scroll the chart to a trade picked in the trade list (onto the bars it fell in, if resampled)
+  const focusTrade = (trip: RoundTrip) => {
+    setFocusRange({ from: chartTime(trip.entryDate), to: chartTime(trip.exitDate) })
+  }
 
-      const fields = Object.keys(samplePoint).filter(key => key !== 'datetime')
-      console.log(`Indicator ${indicatorName} has fields:`, fields)
-
-      // For each field, create a line series
-      for (const field of fields) {
-        const lineData: LineData[] = dataPoints
-          .filter(point => point.datetime && point[field] !== null)
-          .map(point => {
-            const dateStr = point.datetime.split('T')[0] as Time
-            return {
-              time: dateStr,
-              value: point[field] as number
-            }
-          })
-
-        console.log(`${indicatorName}.${field}: ${lineData.length} points`)
-        result[indicatorName][field] = lineData
-      }
-    }
+  // Zoom the chart to one out-of-sample window of the stitched run
+  const focusWindow = (result: WalkForwardResult) => {
+    const candles = result.oos.response?.candles ?? []
+    if (candles.length === 0) return
+    setFocusRange({ from: chartTime(candles[0].datetime), to: chartTime(candles[candles.length - 1].datetime) })
+  }
 
-    console.log('Converted indicators result:', result)
-    return result
+  // Chart drawings belong to the results they were made on; saved runs keep them in history
+  const annotations = results && runAnnotations.results === results ? runAnnotations.annotations : NO_ANNOTATIONS
+  const changeAnnotations = (next: Annotation[]) => {
+    if (!results) return
+    setRunAnnotations({ results, annotations: next })
+    // Until the run's save resolves there's no id to write to, so hold the latest drawings for it
+    const id = runIds.current.get(results)
+    if (id) saveAnnotations(id, next).catch(err => console.error('Failed to save annotations:', err))
+    else if (savedResponses.current.has(results)) pendingAnnotations.current.set(results, next)
   }
 
-  // Convert backend trades to frontend chart markers
-  const convertTradesToMarkers = (trades: TradeSignal[]) => {
-    return trades.map(trade => ({
-      time: trade.datetime.split('T')[0] as Time,
-      type: trade.type,
-      price: trade.price
-    }))
+  // Exports are named after the run that produced the results, not whatever the form says now
+  const exportCsv = (suffix: string, csv: string) => {
+    if (resultsPayload) downloadFile(exportFileName(resultsPayload, suffix, 'csv'), csv, 'text/csv')
+  }
+
+  const exportJson = () => {
+    if (!results || !resultsPayload) return
+    downloadFile(exportFileName(resultsPayload, 'run', 'json'), runToJson(resultsPayload, results, annotations), 'application/json')
+  }
+
+  const exportPng = () => {
+    if (!resultsPayload) return
+    const title = `${resultsPayload.strategy_name} · ${resultsPayload.data_source} · ${resultsPayload.start_date} → ${resultsPayload.end_date}`
+    const canvas = chartHandleRef.current?.snapshot(title)
+    canvas?.toBlob(blob => {
+      if (blob) downloadFile(exportFileName(resultsPayload, 'chart', 'png'), blob)
+    }, 'image/png')
   }
 
   return (
     <div className="app">
       <div className="container">
         <header className="header">
-          <h1>Backtesting Interface</h1>
-          <p>Test with prebuilt strategies. Only use data up to July 2025.</p>
+          <div>
+            <h1>Backtesting Interface</h1>
+            <p>Test with prebuilt strategies. Only use data up to {formatDate(maxDate)}.</p>
+          </div>
+          <div className="header-actions">
+            <label className="compare-check" title="Links you copy start the backtest as soon as they're opened">
+              <input type="checkbox" checked={shareAutoRun} onChange={e => setShareAutoRun(e.target.checked)} />
+              auto-run
+            </label>
+            <button className="mode-tab" onClick={copyPermalink} disabled={!permalink}>
+              {linkCopied ? 'Link copied' : 'Copy link'}
+            </button>
+            <button
+              className={`mode-tab ${mockMode ? 'active' : ''}`}
+              onClick={toggleMockMode}
+              title="Run backtests in the browser against synthetic data instead of the backend"
+            >
+              Mock data {mockMode ? 'on' : 'off'}
+            </button>
+            <button className="mode-tab" onClick={() => importInputRef.current?.click()} title="Open a run exported as JSON">
+              Import run
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={e => {
+                const file = e.target.files?.[0]
+                if (file) importRun(file)
+                e.target.value = ''  // Allow importing the same file again
+              }}
+            />
+            <button className="mode-tab" onClick={() => setHistoryOpen(!historyOpen)}>
+              History ({historyRuns.length})
+            </button>
+          </div>
         </header>
 
+        {historyOpen && (
+          <HistorySidebar
+            runs={historyRuns}
+            activeId={activeRunId}
+            compareIds={compareIds}
+            onOpen={openHistoryRun}
+            onToggleCompare={toggleCompare}
+            onCompare={openCompare}
+            onRename={renameHistoryRun}
+            onTag={tagHistoryRun}
+            onDelete={deleteHistoryRun}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+
         {/* Controls - Horizontal Layout */}
         <div className="controls-horizontal">
           {/* Investment */}
@@ -399,75 +985,210 @@ function App() {
           {/* Stock */}
           <div className="control-section">
             <label className="label">Stock</label>
-            <select
-              value={stock}
-              onChange={e => setStock(e.target.value)}
-              className="input"
-            >
-              <option value="">Select symbol</option>
-              {STOCK_SYMBOLS.map(sym => <option key={sym} value={sym}>{sym}</option>)}
-            </select>
+            <div className="symbol-row">
+              <SymbolPicker
+                value={mode === 'batch' ? '' : stock}
+                disabled={mode === 'batch'}
+                placeholder={mode === 'batch' ? `${batchSymbols.length} symbols (see below)` : 'Search ticker or company'}
+                favorites={favoriteSymbols}
+                recents={recentSymbols}
+                onSelect={selectSymbol}
+                onToggleFavorite={toggleFavoriteSymbol}
+              />
+              <select
+                value={barInterval}
+                onChange={e => setBarInterval(e.target.value as Interval)}
+                className="input interval-select"
+                title="Bar size"
+              >
+                {INTERVALS.map(i => <option key={i.id} value={i.id}>{i.id}</option>)}
+              </select>
+            </div>
+            {symbolWarning && <p className="date-note warning">{symbolWarning}</p>}
           </div>
 
           {/* Strategy */}
           <div className="control-section">
             <label className="label">Strategy</label>
             <div className="button-group">
-              {STRATEGIES.map(s => (
+              {[...STRATEGIES, ...customStrategies].map(s => (
                 <button
                   key={s.id}
-                  onClick={() => setSelectedStrategy(s.id)}
+                  onClick={() => selectStrategy(s.id)}
                   className={`strategy-btn ${selectedStrategy === s.id ? 'active' : ''}`}
                 >
                   <div className="btn-title">{s.name}</div>
                   <div className="btn-desc">{s.desc}</div>
                 </button>
               ))}
+              <button
+                onClick={() => selectStrategy(CUSTOM_DRAFT_ID)}
+                className={`strategy-btn ${selectedStrategy === CUSTOM_DRAFT_ID ? 'active' : ''}`}
+              >
+                <div className="btn-title">+ Custom strategy</div>
+                <div className="btn-desc">Write your own</div>
+              </button>
             </div>
           </div>
 
-          {/* Start Date */}
-          <div className="control-section">
-            <label className="label">Start Date</label>
-            <input
-              type="date"
-              value={startDate}
-              onChange={e => handleStartDate(e.target.value)}
-              max={endDate || maxDate}
-              className="input"
-            />
-          </div>
-
-          {/* End Date */}
-          <div className="control-section">
-            <label className="label">End Date</label>
-            <input
-              type="date"
-              value={endDate}
-              onChange={e => handleEndDate(e.target.value)}
-              min={startDate || undefined}
-              max={maxDate}
-              className="input"
-            />
-          </div>
+          {/* Start and End Date */}
+          <DateRangePicker
+            startDate={startDate}
+            endDate={endDate}
+            maxDate={maxDate}
+            errors={dateErrors}
+            barCount={barCount}
+            lookback={lookback}
+            onChange={handleDates}
+          />
 
           {/* Run Button */}
           <div className="control-section">
             <label className="label">&nbsp;</label>
+            {mode === 'batch' ? (
+              <button
+                disabled={!isValid || batch.running}
+                onClick={runBatch}
+                className={`run-btn ${isValid && !batch.running ? 'active' : ''}`}
+              >
+                {batch.running ? 'Running batch...' : isValid ? `Run on ${batchSymbols.length} symbols` : 'Complete all fields'}
+              </button>
+            ) : mode === 'walkforward' ? (
+              <button
+                disabled={!isValid || walkForward.running}
+                onClick={runWalkForward}
+                className={`run-btn ${isValid && !walkForward.running ? 'active' : ''}`}
+              >
+                {walkForward.running ? 'Walking forward...' : isValid ? `Run Walk-forward (${walkForwardRuns})` : tooManyRuns ? 'Too many runs' : 'Complete all fields'}
+              </button>
+            ) : mode === 'sweep' ? (
+              <button
+                disabled={!isValid || sweep.running}
+                onClick={runSweep}
+                className={`run-btn ${isValid && !sweep.running ? 'active' : ''}`}
+              >
+                {sweep.running ? 'Sweeping...' : isValid ? `Run Sweep (${sweepCombos.length})` : tooManyRuns ? 'Too many runs' : 'Complete all fields'}
+              </button>
+            ) : (
+              <div className="run-cell">
+                <button
+                  disabled={!isValid}
+                  onClick={runBacktest}
+                  className={`run-btn ${isValid ? 'active' : ''}`}
+                  title={loading ? 'Start over with the current settings' : undefined}
+                >
+                  {loading ? `Running... ${elapsedSeconds}s` : isValid ? 'Run Backtest' : 'Complete all fields'}
+                </button>
+                {loading && <button className="link-btn cancel-run" onClick={cancelBacktest}>Cancel</button>}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Custom Strategy Editor */}
+        {isCustomSelected && (
+          <StrategyEditor
+            code={editorCode}
+            check={sourceCheck}
+            saved={selectedStrategy !== CUSTOM_DRAFT_ID}
+            saveError={customSaveError}
+            onChange={handleEditorChange}
+            onSave={saveCustomStrategy}
+            onDelete={deleteCustomStrategy}
+          />
+        )}
+
+        {/* Run Mode */}
+        <div className="mode-tabs">
+          {RUN_MODES.map(m => (
             <button
-              disabled={!isValid || loading}
-              onClick={runBacktest}
-              className={`run-btn ${isValid && !loading ? 'active' : ''}`}
+              key={m.id}
+              onClick={() => setMode(m.id)}
+              className={`mode-tab ${mode === m.id ? 'active' : ''}`}
             >
-              {loading ? 'Running...' : isValid ? 'Run Backtest' : 'Complete all fields'}
+              {m.label}
             </button>
-          </div>
+          ))}
         </div>
 
+        {/* Walk-forward Windows */}
+        {mode === 'walkforward' && (
+          <WalkForwardPanel
+            values={walkForwardInputs}
+            errors={walkForwardErrors}
+            windowCount={walkForwardWindows.length}
+            comboCount={sweepRunCount}
+            running={walkForward.running}
+            finished={walkForward.finished}
+            total={walkForward.total}
+            onChange={setWalkForwardInputs}
+            onCancel={walkForward.cancel}
+          />
+        )}
+
+        {/* Sweep Ranges (walk-forward sweeps the same grid on every in-sample window) */}
+        {(mode === 'sweep' || mode === 'walkforward') && currentStrategy && (
+          <SweepPanel
+            strategyName={currentStrategy.name}
+            params={currentStrategy.params}
+            ranges={effectiveRanges}
+            runCount={sweepRunCount}
+            concurrency={sweepConcurrency}
+            running={sweep.running}
+            finished={sweep.finished}
+            total={mode === 'sweep' ? sweep.runs.length : 0}
+            onRangeChange={(name, range) => setSweepRanges(prev => ({ ...prev, [name]: range }))}
+            onConcurrencyChange={setSweepConcurrency}
+            onCancel={sweep.cancel}
+          />
+        )}
+
+        {/* Batch Symbols */}
+        {mode === 'batch' && (
+          <BatchPanel
+            symbols={SYMBOL_UNIVERSE}
+            startDate={startDate}
+            presets={SYMBOL_PRESETS}
+            selected={batchSymbols}
+            concurrency={batchConcurrency}
+            running={batch.running}
+            finished={batch.finished}
+            total={batch.runs.length}
+            onChange={setBatchSymbols}
+            onConcurrencyChange={setBatchConcurrency}
+            onCancel={batch.cancel}
+          />
+        )}
+
+        {/* Strategy Parameters */}
+        {mode !== 'sweep' && mode !== 'walkforward' && currentStrategy && (
+          <StrategyParams
+            strategyName={currentStrategy.name}
+            params={currentStrategy.params}
+            values={paramInputs}
+            errors={paramErrors}
+            onChange={handleParam}
+            onReset={() => setParamInputs(defaultParamInputs(currentStrategy.params))}
+          />
+        )}
+
+        {/* Execution */}
+        <ExecutionPanel
+          values={executionInputs}
+          errors={executionErrors}
+          onChange={setExecutionInputs}
+          onReset={() => setExecutionInputs(DEFAULT_EXECUTION_FORM)}
+        />
+
         {/* API Error */}
         {apiError && (
           <div className="error-banner">
             {apiError}
+            {apiIssues.length > 0 && (
+              <ul className="error-issues">
+                {apiIssues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            )}
           </div>
         )}
 
@@ -475,62 +1196,154 @@ function App() {
 
           {/* Right Column */}
           <div className="results">
-            {showResults && results ? (
+            {compareEntries ? (
+              <CompareView entries={compareEntries} onClose={() => setCompareEntries(null)} />
+            ) : (
               <>
-                <div className="card">
-                  <label className="label">Performance Chart</label>
-                  <div className="chart-container">
-                    {results.candles && results.candles.length > 0 ? (
-                      <CandlestickChart
-                        priceData={convertCandlesToChartData(results.candles).priceData}
-                        volumeData={convertCandlesToChartData(results.candles).volumeData}
-                        equityData={results.equity ? convertEquityToChartData(results.equity) : []}
-                        indicatorsData={results.indicators ? convertIndicatorsToChartData(results.indicators) : {}}
-                        trades={results.trades ? convertTradesToMarkers(results.trades) : []}
-                        height={500}
-                      />
-                    ) : (
-                      <div className="empty-state">
-                        <p>No chart data available</p>
-                      </div>
-                    )}
+                {mode === 'sweep' && sweep.runs.length > 0 && (
+                  <div className="card">
+                    <label className="label">Sweep Results</label>
+                    <SweepResults
+                      runs={sweep.runs}
+                      paramNames={Object.keys(sweep.runs[0].params)}
+                      onOpen={openSweepRun}
+                    />
+                  </div>
+                )}
+
+                {mode === 'walkforward' && walkForward.results.length > 0 && (
+                  <div className="card">
+                    <label className="label">Walk-forward Windows</label>
+                    <WalkForwardResults results={walkForward.results} onFocus={focusWindow} />
+                  </div>
+                )}
+
+                {mode === 'batch' && batch.runs.length > 0 && (
+                  <div className="card">
+                    <label className="label">Symbol Comparison</label>
+                    <BatchResults runs={batch.runs} onOpen={openBatchRun} />
                   </div>
-                </div>
-
-                <div className="card">
-                  <label className="label">Results</label>
-                  <div className="results-metrics">
-                    <div className="metric">
-                      <span className="metric-label">Total Return</span>
-                      <span className={`metric-value ${results.metrics.total_return >= 0 ? 'positive' : 'negative'}`}>
-                        {results?.metrics.total_return.toFixed(2)}%
-                      </span>
+                )}
+
+                {showResults && results ? (
+                  <>
+                    <div className="card">
+                      <div className="params-header">
+                        <label className="label">Performance Chart</label>
+                        {resultsPayload && (
+                          <div className="export-actions">
+                            <select
+                              value={shownInterval}
+                              onChange={e => setViewInterval(e.target.value as Interval)}
+                              className="view-interval"
+                              title="Resample the bars for viewing (metrics stay at the run's interval)"
+                            >
+                              {viewIntervalsFor(runInterval).map(i => (
+                                <option key={i.id} value={i.id}>{i.id === runInterval ? `${i.label} bars` : `View ${i.label}`}</option>
+                              ))}
+                            </select>
+                            <button className="link-btn" onClick={exportPng}>PNG</button>
+                            <button className="link-btn" onClick={() => exportCsv('candles', candlesCsv(results.candles, results.indicators))}>Candles CSV</button>
+                          </div>
+                        )}
+                      </div>
+                      <div className="chart-container">
+                        {results.candles && results.candles.length > 0 ? (
+                          <CandlestickChart
+                            priceData={chartData.priceData}
+                            volumeData={chartData.volumeData}
+                            equityData={equityChartData}
+                            benchmarkData={benchmarkChartData}
+                            drawdownData={drawdownData}
+                            indicatorsData={indicatorsData}
+                            trades={tradeMarkers}
+                            focusRange={focusRange}
+                            timeBands={timeBands}
+                            intraday={intraday}
+                            strategyParams={resultsPayload?.strategy_params}
+                            seriesStyles={chartStyles[chartStyleKey]}
+                            onSeriesStyleChange={updateSeriesStyle}
+                            annotations={annotations}
+                            onAnnotationsChange={changeAnnotations}
+                            chartTime={chartTime}
+                            height={620}
+                            ref={chartHandleRef}
+                          />
+                        ) : (
+                          <div className="empty-state">
+                            <p>No chart data available</p>
+                          </div>
+                        )}
+                      </div>
                     </div>
-                    <div className="metric">
-                      <span className="metric-label">Sharpe Ratio</span>
-                      <span className="metric-value">
-                        {results.metrics.sharpe_ratio.toFixed(3)}
-                      </span>
+
+                    <div className="card">
+                      <div className="params-header">
+                        <label className="label">Results</label>
+                        {resultsPayload && (
+                          <div className="export-actions">
+                            <button className="link-btn" onClick={() => exportCsv('equity', equityCsv(results.equity))}>Equity CSV</button>
+                            <button className="link-btn" onClick={exportJson}>JSON</button>
+                          </div>
+                        )}
+                      </div>
+                      <div className="results-metrics">
+                        <div className="metric">
+                          <span className="metric-label">Total Return</span>
+                          <span className={`metric-value ${results.metrics.total_return >= 0 ? 'positive' : 'negative'}`}>
+                            {results?.metrics.total_return.toFixed(2)}%
+                          </span>
+                        </div>
+                        <div className="metric">
+                          <span className="metric-label">Sharpe Ratio</span>
+                          <span className="metric-value">
+                            {results.metrics.sharpe_ratio.toFixed(3)}
+                          </span>
+                        </div>
+                        <div className="metric">
+                          <span className="metric-label">Max Drawdown</span>
+                          <span className="metric-value negative">
+                            {results.metrics.max_drawdown.toFixed(2)}%
+                          </span>
+                        </div>
+                      </div>
+                      {benchmark && <BenchmarkComparison comparison={benchmark} symbol={resultsPayload?.data_source ?? ''} />}
+                      {performance && <MetricsGrid metrics={performance} />}
+                      <div className="results-summary">
+                        {/* From the payload the run was sent with, so later form edits don't rewrite it */}
+                        {resultsPayload && (
+                          <pre>{`Strategy: ${resultsPayload.strategy_name}
+                          Params: ${Object.entries(resultsPayload.strategy_params).map(([k, v]) => `${k}=${v}`).join(', ')}
+                          Stock: ${resultsPayload.data_source}
+                          Period: ${resultsPayload.start_date} to ${resultsPayload.end_date}
+                          Initial Capital: $${formatAmount(String(resultsPayload.initial_cash))}
+                          ${describeExecution(resultsPayload.execution).join('\n                          ')}`}</pre>
+                        )}
+                      </div>
                     </div>
-                    <div className="metric">
-                      <span className="metric-label">Max Drawdown</span>
-                      <span className="metric-value negative">
-                        {results.metrics.max_drawdown.toFixed(2)}%
-                      </span>
+
+                    <div className="card">
+                      <div className="params-header">
+                        <label className="label">Trades</label>
+                        {resultsPayload && roundTrips.length > 0 && (
+                          <div className="export-actions">
+                            <button className="link-btn" onClick={() => exportCsv('trades', roundTripsCsv(roundTrips))}>Trades CSV</button>
+                          </div>
+                        )}
+                      </div>
+                      <TradeList
+                        roundTrips={roundTrips}
+                        onSelect={focusTrade}
+                      />
                     </div>
+                  </>
+                ) : !(mode === 'sweep' && sweep.runs.length > 0) && !(mode === 'batch' && batch.runs.length > 0) && (
+                  <div className="card empty-state">
+                    <p>{loading ? `Running backtest... ${elapsedSeconds}s` : 'Configure parameters and run backtest to see results'}</p>
+                    {loading && runStatus && <p className="run-status">{runStatus}</p>}
                   </div>
-                  <div className="results-summary">
-                    <pre>{`Strategy: ${STRATEGIES.find(s => s.id === selectedStrategy)?.name}
-                      Stock: ${stock}
-                      Period: ${startDate} to ${endDate}
-                      Initial Capital: $${displayAmount || amount}`}</pre>
-                  </div>
-                </div>
+                )}
               </>
-            ) : (
-              <div className="card empty-state">
-                <p>{loading ? 'Running backtest...' : 'Configure parameters and run backtest to see results'}</p>
-              </div>
             )}
           </div>
         </div>
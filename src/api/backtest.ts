@@ -0,0 +1,42 @@
+import type { BacktestPayload, BacktestResponse, ExecutionSettings } from '../types/backtest'
+import { postJson } from './client'
+import type { RequestOptions } from './client'
+import { parseBacktestResponse } from './schema'
+import type { Strategy } from '../types/strategy'
+import type { ParamValues } from '../utils/strategyParams'
+import type { Interval } from '../utils/timeframes'
+import { isDefaultExecution } from '../utils/execution'
+
+export interface RunSettings {
+  stock: string
+  startDate: string
+  endDate: string
+  amount: number
+  interval: Interval
+  execution: ExecutionSettings
+}
+
+// Build the payload by merging the strategy config with user inputs
+export function buildBacktestPayload(strategy: Strategy, params: ParamValues, settings: RunSettings): BacktestPayload {
+  // Sent as is: the bundled strategies are normalized where they're imported (see STRATEGIES in App), and
+  // user code is already real Python, where a `\n` inside a string literal has to stay an escape
+  return {
+    strategy_code: strategy.code,
+    strategy_name: strategy.name, //NEEDS TO MATCH CLASS NAME
+    strategy_params: params, //ALL need to have params field!!!
+    data_source: settings.stock,
+    start_date: settings.startDate,
+    end_date: settings.endDate,
+    initial_cash: settings.amount,
+    interval: settings.interval,
+    // Defaults are left out so backends that predate execution settings get exactly what they used to
+    ...(isDefaultExecution(settings.execution) ? {} : { execution: settings.execution })
+  }
+}
+
+// POST a backtest and return the validated response. Throws ApiError with the backend's detail on
+// failure, or ResponseValidationError listing the bad fields if the response doesn't match the schema.
+// Transient failures are retried and each attempt times out (see client.ts).
+export function postBacktest(payload: BacktestPayload, options?: RequestOptions): Promise<BacktestResponse> {
+  return postJson('/backtest', payload, parseBacktestResponse, options)
+}
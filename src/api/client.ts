@@ -0,0 +1,174 @@
+// Base URL comes from Vite env config: set VITE_API_BASE_URL in .env.local (e.g. http://127.0.0.1:8000
+// for a local backend). Falls back to the hosted backend.
+const DEFAULT_API_BASE_URL = 'https://backtesting-mini-engine-v1-hc8o.onrender.com'
+
+export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '')
+
+// The hosted backend sleeps when idle and the first request can take close to a minute, so the default
+// timeout is generous. Override with VITE_API_TIMEOUT_SECONDS.
+export const REQUEST_TIMEOUT_MS = (Number(import.meta.env.VITE_API_TIMEOUT_SECONDS) || 120) * 1000
+export const MAX_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 1000
+
+// Mock mode answers requests in the browser from synthetic data (see src/mock), for offline work and CI.
+// VITE_MOCK_API=true turns it on by default; the header toggle overrides that per browser.
+const MOCK_STORAGE_KEY = 'backtest.mockApi'
+const MOCK_LATENCY_MS = 300
+
+export function isMockMode(): boolean {
+  const stored = localStorage.getItem(MOCK_STORAGE_KEY)
+  return stored === null ? import.meta.env.VITE_MOCK_API === 'true' : stored === 'true'
+}
+
+export function setMockMode(enabled: boolean) {
+  localStorage.setItem(MOCK_STORAGE_KEY, String(enabled))
+}
+
+// Non-2xx response from the backend, with whatever detail it sent back
+export class ApiError extends Error {
+  status: number
+
+  constructor(status: number, detail: string) {
+    super(`API Error: ${detail}`)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+// The request took longer than the timeout and was aborted
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`)
+    this.name = 'RequestTimeoutError'
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal  // Abort to cancel, including any pending retries
+  timeoutMs?: number    // Per attempt
+  retries?: number
+  onRetry?: (attempt: number, delayMs: number, err: Error) => void  // `attempt` is the retry number, from 1
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'AbortError'
+
+// 5xx (Render returns 502/503 while the instance boots) and network failures are worth another try.
+// Client errors, timeouts and validation errors are not.
+const isTransient = (err: unknown) =>
+  (err instanceof ApiError && err.status >= 500) || err instanceof TypeError
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(new DOMException('Aborted', 'AbortError'))
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  if (signal?.aborted) onAbort()
+  else signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+// Run `fn` with a signal that aborts when either the caller's signal does or `timeoutMs` passes
+async function withTimeout<T>(timeoutMs: number, signal: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController()
+  const onAbort = () => controller.abort()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+
+  if (signal?.aborted) controller.abort()
+  else signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    return await fn(controller.signal)
+  } catch (err) {
+    if (timedOut && isAbortError(err)) throw new RequestTimeoutError(timeoutMs)
+    throw err
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+// Retry transient failures with exponential backoff (1s, 2s, 4s... plus jitter)
+async function withRetry<T>(options: RequestOptions, fn: () => Promise<T>): Promise<T> {
+  const { signal, retries = MAX_RETRIES, onRetry } = options
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (err) {
+      if (signal?.aborted || attempt >= retries || !isTransient(err)) throw err
+      const delayMs = Math.round(RETRY_BASE_DELAY_MS * 2 ** attempt * (0.8 + Math.random() * 0.4))
+      console.warn(`Request failed, retrying in ${delayMs}ms:`, err)
+      onRetry?.(attempt + 1, delayMs, err as Error)
+      await sleep(delayMs, signal)
+    }
+  }
+}
+
+// POST JSON to `path` and hand the raw parsed body to `parse`, which validates it into a typed value
+export function postJson<T>(path: string, body: unknown, parse: (json: unknown) => T, options: RequestOptions = {}): Promise<T> {
+  const { signal, timeoutMs = REQUEST_TIMEOUT_MS } = options
+  return withRetry(options, () => withTimeout(timeoutMs, signal, attemptSignal => postOnce(path, body, parse, attemptSignal)))
+}
+
+async function postOnce<T>(path: string, body: unknown, parse: (json: unknown) => T, signal: AbortSignal): Promise<T> {
+  if (isMockMode()) {
+    // Loaded on demand so the mock engine stays out of the production bundle
+    const { handleMockRequest } = await import('../mock/mockBackend')
+    await sleep(MOCK_LATENCY_MS, signal)
+    const mock = handleMockRequest(path, body)
+    if (mock.status >= 400) {
+      const detail = (mock.body as { detail?: string }).detail
+      throw new ApiError(mock.status, detail || `${mock.status}`)
+    }
+    return parse(mock.body)
+  }
+
+  const url = `${API_BASE_URL}${path}`
+  console.log('Calling backend at:', url)
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal
+  })
+
+  console.log('Response status:', response.status, response.statusText)
+
+  if (!response.ok) {
+    // Try to get error details from response (body can only be read once, so read text and parse it)
+    let errorDetail = `${response.status} ${response.statusText}`
+    const errorText = await response.text().catch(() => '')
+    try {
+      const errorJson = JSON.parse(errorText)
+      console.error('Backend error details:', errorJson)
+      errorDetail = errorJson.detail || errorJson.message || JSON.stringify(errorJson)
+    } catch {
+      console.error('Backend error text:', errorText)
+      errorDetail = errorText || errorDetail
+    }
+    throw new ApiError(response.status, typeof errorDetail === 'string' ? errorDetail : JSON.stringify(errorDetail))
+  }
+
+  const json: unknown = await response.json()
+  console.log('Raw backend response:', json)
+  return parse(json)
+}
+
+// Fire a cheap request at the backend so a sleeping instance starts booting before the first backtest.
+// `no-cors` because we only care that the server answered, not what it said.
+export async function pingBackend(signal?: AbortSignal): Promise<void> {
+  if (isMockMode()) return
+  await withTimeout(REQUEST_TIMEOUT_MS, signal, attemptSignal =>
+    fetch(`${API_BASE_URL}/`, { mode: 'no-cors', cache: 'no-store', signal: attemptSignal }))
+}
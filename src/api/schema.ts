@@ -0,0 +1,221 @@
+import type {
+  BackendCandle,
+  BackendIndicators,
+  BacktestPayload,
+  BacktestResponse,
+  EquityData,
+  ExecutionSettings,
+  IndicatorDataPoint,
+  TradeSignal
+} from '../types/backtest'
+import { INTERVALS, isInterval } from '../utils/timeframes'
+
+// Runtime checks for what the backend sends. TypeScript types vanish at runtime, and a renamed
+// field (e.g. equity `value` vs `equity`) otherwise shows up as an empty chart with no error.
+// Validators collect every problem as "path: message" instead of stopping at the first one.
+
+type Issues = string[]
+
+const MAX_REPORTED_ISSUES = 8
+
+export class ResponseValidationError extends Error {
+  issues: string[]
+
+  constructor(issues: string[], subject = 'backend response') {
+    super(`Unexpected ${subject} (${issues.length} field${issues.length === 1 ? '' : 's'} failed validation): ${issues[0]}`)
+    this.name = 'ResponseValidationError'
+    this.issues = issues.length > MAX_REPORTED_ISSUES
+      ? [...issues.slice(0, MAX_REPORTED_ISSUES), `...and ${issues.length - MAX_REPORTED_ISSUES} more`]
+      : issues
+  }
+}
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+function expectNumber(value: unknown, path: string, issues: Issues): number {
+  if (!isNumber(value)) issues.push(`${path}: expected number, got ${describe(value)}`)
+  return value as number
+}
+
+function expectString(value: unknown, path: string, issues: Issues): string {
+  if (typeof value !== 'string' || !value) issues.push(`${path}: expected non-empty string, got ${describe(value)}`)
+  return value as string
+}
+
+function expectOneOf<T extends string>(value: unknown, options: readonly T[], path: string, issues: Issues): T {
+  if (!options.includes(value as T)) issues.push(`${path}: expected one of ${options.join(', ')}, got ${describe(value)}`)
+  return value as T
+}
+
+function expectArray(value: unknown, path: string, issues: Issues): unknown[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected array, got ${describe(value)}`)
+    return []
+  }
+  return value
+}
+
+export function parseCandle(value: unknown, path: string, issues: Issues): BackendCandle {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected object, got ${describe(value)}`)
+    return value as BackendCandle
+  }
+  return {
+    datetime: expectString(value.datetime, `${path}.datetime`, issues),
+    open: expectNumber(value.open, `${path}.open`, issues),
+    high: expectNumber(value.high, `${path}.high`, issues),
+    low: expectNumber(value.low, `${path}.low`, issues),
+    close: expectNumber(value.close, `${path}.close`, issues),
+    volume: expectNumber(value.volume, `${path}.volume`, issues),
+  }
+}
+
+// The docs spell the field `value`, the backend currently sends `equity` - accept either
+export function parseEquityPoint(value: unknown, path: string, issues: Issues): EquityData {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected object, got ${describe(value)}`)
+    return value as EquityData
+  }
+  const raw = value.equity ?? value.value
+  if (raw === undefined) issues.push(`${path}: missing equity (or value) field`)
+  return {
+    datetime: expectString(value.datetime, `${path}.datetime`, issues),
+    equity: raw === undefined ? NaN : expectNumber(raw, `${path}.equity`, issues),
+  }
+}
+
+export function parseTradeSignal(value: unknown, path: string, issues: Issues): TradeSignal {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected object, got ${describe(value)}`)
+    return value as TradeSignal
+  }
+  const type = typeof value.type === 'string' ? value.type.toLowerCase() : value.type
+  if (type !== 'buy' && type !== 'sell') issues.push(`${path}.type: expected "buy" or "sell", got ${JSON.stringify(value.type)}`)
+
+  const trade: TradeSignal = {
+    datetime: expectString(value.datetime, `${path}.datetime`, issues),
+    type: type as TradeSignal['type'],
+  }
+  if (value.price !== undefined && value.price !== null) trade.price = expectNumber(value.price, `${path}.price`, issues)
+  return trade
+}
+
+// Indicator points are { datetime, <line>: number | null, ... } with line names varying per indicator
+export function parseIndicators(value: unknown, path: string, issues: Issues): BackendIndicators {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected object, got ${describe(value)}`)
+    return {}
+  }
+
+  const indicators: BackendIndicators = {}
+  for (const [name, points] of Object.entries(value)) {
+    indicators[name] = expectArray(points, `${path}.${name}`, issues).map((point, i) => {
+      const pointPath = `${path}.${name}[${i}]`
+      if (!isObject(point)) {
+        issues.push(`${pointPath}: expected object, got ${describe(point)}`)
+        return point as IndicatorDataPoint
+      }
+      for (const [field, fieldValue] of Object.entries(point)) {
+        if (field !== 'datetime' && fieldValue !== null && !isNumber(fieldValue)) {
+          issues.push(`${pointPath}.${field}: expected number or null, got ${describe(fieldValue)}`)
+        }
+      }
+      expectString(point.datetime, `${pointPath}.datetime`, issues)
+      return point as IndicatorDataPoint
+    })
+  }
+  return indicators
+}
+
+// Validate and normalize a /backtest response, throwing ResponseValidationError with field paths
+export function parseBacktestResponse(json: unknown): BacktestResponse {
+  const issues: Issues = []
+
+  if (!isObject(json)) throw new ResponseValidationError([`response: expected object, got ${describe(json)}`])
+
+  if (json.success === false) {
+    const detail = json.error ?? json.detail ?? json.message
+    throw new Error(`Backtest failed: ${typeof detail === 'string' ? detail : 'backend reported success: false'}`)
+  }
+
+  const metrics = isObject(json.metrics) ? json.metrics : {}
+  if (!isObject(json.metrics)) issues.push(`metrics: expected object, got ${describe(json.metrics)}`)
+
+  const response: BacktestResponse = {
+    success: json.success !== false,
+    strategy_name: expectString(json.strategy_name, 'strategy_name', issues),
+    metrics: {
+      final_value: expectNumber(metrics.final_value, 'metrics.final_value', issues),
+      initial_value: expectNumber(metrics.initial_value, 'metrics.initial_value', issues),
+      max_drawdown: expectNumber(metrics.max_drawdown, 'metrics.max_drawdown', issues),
+      sharpe_ratio: isNumber(metrics.sharpe_ratio) ? metrics.sharpe_ratio : 0,  // backtrader returns None with no trades
+      total_return: expectNumber(metrics.total_return, 'metrics.total_return', issues),
+    },
+    candles: expectArray(json.candles, 'candles', issues).map((c, i) => parseCandle(c, `candles[${i}]`, issues)),
+    equity: expectArray(json.equity, 'equity', issues).map((e, i) => parseEquityPoint(e, `equity[${i}]`, issues)),
+  }
+
+  if (json.indicators !== undefined && json.indicators !== null) {
+    response.indicators = parseIndicators(json.indicators, 'indicators', issues)
+  }
+  if (json.trades !== undefined && json.trades !== null) {
+    response.trades = expectArray(json.trades, 'trades', issues).map((t, i) => parseTradeSignal(t, `trades[${i}]`, issues))
+  }
+
+  if (issues.length > 0) throw new ResponseValidationError(issues)
+  return response
+}
+
+function parseExecution(value: unknown, path: string, issues: Issues): ExecutionSettings {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected object, got ${describe(value)}`)
+    return value as ExecutionSettings
+  }
+  if (typeof value.allow_short !== 'boolean') issues.push(`${path}.allow_short: expected boolean, got ${describe(value.allow_short)}`)
+  return {
+    commission_type: expectOneOf(value.commission_type, ['flat', 'percent'], `${path}.commission_type`, issues),
+    commission: expectNumber(value.commission, `${path}.commission`, issues),
+    slippage_bps: expectNumber(value.slippage_bps, `${path}.slippage_bps`, issues),
+    sizing: expectOneOf(value.sizing, ['fixed_cash', 'percent_equity', 'fixed_shares'], `${path}.sizing`, issues),
+    size: expectNumber(value.size, `${path}.size`, issues),
+    allow_short: value.allow_short as boolean
+  }
+}
+
+// Validate a request body read back from somewhere we don't control (e.g. an imported run file)
+export function parseBacktestPayload(json: unknown, path = 'payload'): BacktestPayload {
+  const issues: Issues = []
+
+  if (!isObject(json)) throw new ResponseValidationError([`${path}: expected object, got ${describe(json)}`], 'run payload')
+
+  const params = isObject(json.strategy_params) ? json.strategy_params : {}
+  if (!isObject(json.strategy_params)) issues.push(`${path}.strategy_params: expected object, got ${describe(json.strategy_params)}`)
+
+  const payload: BacktestPayload = {
+    strategy_code: expectString(json.strategy_code, `${path}.strategy_code`, issues),
+    strategy_name: expectString(json.strategy_name, `${path}.strategy_name`, issues),
+    strategy_params: Object.fromEntries(Object.entries(params).map(([name, value]) =>
+      [name, expectNumber(value, `${path}.strategy_params.${name}`, issues)])),
+    data_source: expectString(json.data_source, `${path}.data_source`, issues),
+    start_date: expectString(json.start_date, `${path}.start_date`, issues),
+    end_date: expectString(json.end_date, `${path}.end_date`, issues),
+    initial_cash: expectNumber(json.initial_cash, `${path}.initial_cash`, issues),
+  }
+
+  if (json.interval !== undefined) {
+    if (isInterval(json.interval)) payload.interval = json.interval
+    else issues.push(`${path}.interval: expected one of ${INTERVALS.map(i => i.id).join(', ')}, got ${describe(json.interval)}`)
+  }
+
+  if (json.execution !== undefined) payload.execution = parseExecution(json.execution, `${path}.execution`, issues)
+
+  if (issues.length > 0) throw new ResponseValidationError(issues, 'run payload')
+  return payload
+}
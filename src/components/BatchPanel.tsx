@@ -0,0 +1,98 @@
+import { listingWarning } from '../utils/symbols'
+import type { SymbolInfo } from '../utils/symbols'
+
+interface BatchPanelProps {
+  symbols: SymbolInfo[]
+  startDate: string  // To flag symbols that listed after it
+  presets: Record<string, string[]>
+  selected: string[]
+  concurrency: number
+  running: boolean
+  finished: number
+  total: number
+  onChange: (symbols: string[]) => void
+  onConcurrencyChange: (value: number) => void
+  onCancel: () => void
+}
+
+export default function BatchPanel({
+  symbols,
+  startDate,
+  presets,
+  selected,
+  concurrency,
+  running,
+  finished,
+  total,
+  onChange,
+  onConcurrencyChange,
+  onCancel
+}: BatchPanelProps) {
+  const toggle = (symbol: string) => {
+    onChange(selected.includes(symbol) ? selected.filter(s => s !== symbol) : [...selected, symbol])
+  }
+
+  const unlisted = selected.filter(symbol => listingWarning(symbol, startDate))
+
+  const progress = total > 0 ? (finished / total) * 100 : 0
+
+  return (
+    <div className="params-panel">
+      <div className="params-header">
+        <label className="label">Symbols ({selected.length} selected)</label>
+        <div className="editor-actions">
+          {Object.entries(presets).map(([name, preset]) => (
+            <button key={name} className="link-btn" onClick={() => onChange(preset)}>{name}</button>
+          ))}
+          <button className="link-btn" onClick={() => onChange([])}>Clear</button>
+        </div>
+      </div>
+
+      <div className="symbol-chips">
+        {symbols.map(({ ticker, name }) => {
+          const warning = listingWarning(ticker, startDate)
+          return (
+            <button
+              key={ticker}
+              onClick={() => toggle(ticker)}
+              className={`symbol-chip ${selected.includes(ticker) ? 'active' : ''} ${warning ? 'unlisted' : ''}`}
+              title={warning ?? name}
+            >
+              {ticker}
+            </button>
+          )
+        })}
+      </div>
+      {unlisted.length > 0 && (
+        <p className="date-note warning">
+          {unlisted.join(', ')} listed after the start date, so their runs begin later or fail
+        </p>
+      )}
+
+      <div className="params-grid batch-options">
+        <div className="param-field">
+          <label className="param-label" htmlFor="batch-concurrency">parallel requests</label>
+          <input
+            id="batch-concurrency"
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={e => onConcurrencyChange(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+            className="input"
+          />
+        </div>
+      </div>
+
+      {total > 0 && (
+        <div className="sweep-progress">
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${progress}%` }} />
+          </div>
+          <span>{finished} / {total}</span>
+          {running && <button className="link-btn" onClick={onCancel}>Cancel</button>}
+        </div>
+      )}
+    </div>
+  )
+}
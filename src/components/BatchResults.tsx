@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import Sparkline from './Sparkline'
+import { buildBenchmarkEquity, compareToBenchmark } from '../utils/benchmark'
+import { computePerformanceMetrics } from '../utils/metrics'
+import type { QueuedRun } from '../utils/queue'
+import { buildRoundTrips } from '../utils/trades'
+
+export interface BatchRun extends QueuedRun {
+  symbol: string
+}
+
+interface BatchResultsProps {
+  runs: BatchRun[]
+  onOpen: (run: BatchRun) => void
+}
+
+interface Row {
+  run: BatchRun
+  equity: number[]
+  stats: Record<string, number | null>
+}
+
+const COLUMNS: { id: string; label: string; format: (v: number) => string }[] = [
+  { id: 'total_return', label: 'Return', format: v => `${v.toFixed(2)}%` },
+  { id: 'buy_hold', label: 'Buy & Hold', format: v => `${v.toFixed(2)}%` },
+  { id: 'excess', label: 'Excess', format: v => `${v.toFixed(2)}%` },
+  { id: 'cagr', label: 'CAGR', format: v => `${v.toFixed(2)}%` },
+  { id: 'sharpe', label: 'Sharpe', format: v => v.toFixed(3) },
+  { id: 'max_drawdown', label: 'Max DD', format: v => `${v.toFixed(2)}%` },
+  { id: 'win_rate', label: 'Win Rate', format: v => `${v.toFixed(1)}%` },
+  { id: 'trades', label: 'Trades', format: v => String(v) },
+]
+
+// Columns where a bigger number is better get green/red by sign
+const SIGNED = new Set(['total_return', 'buy_hold', 'excess', 'cagr', 'sharpe'])
+
+function buildRow(run: BatchRun): Row {
+  const response = run.response
+  if (!response) return { run, equity: [], stats: {} }
+
+  const equity = response.equity || []
+  const initialCash = response.metrics.initial_value
+  const roundTrips = buildRoundTrips(response.trades || [], response.candles || [], equity, initialCash)
+  const performance = computePerformanceMetrics(equity, roundTrips)
+  const benchmark = compareToBenchmark(equity, buildBenchmarkEquity(response.candles || [], initialCash))
+
+  return {
+    run,
+    equity: equity.map(point => point.equity),
+    stats: {
+      total_return: response.metrics.total_return,
+      buy_hold: benchmark?.benchmarkReturn ?? null,
+      excess: benchmark?.excessReturn ?? null,
+      cagr: performance.cagr,
+      sharpe: response.metrics.sharpe_ratio,
+      max_drawdown: response.metrics.max_drawdown,
+      win_rate: performance.winRate,
+      trades: performance.numberOfTrades,
+    }
+  }
+}
+
+export default function BatchResults({ runs, onOpen }: BatchResultsProps) {
+  const [sortKey, setSortKey] = useState('sharpe')
+  const [sortDesc, setSortDesc] = useState(true)
+
+  if (runs.length === 0) return null
+
+  const rows = runs.map(buildRow)
+  const sorted = [...rows].sort((a, b) => {
+    const av = a.stats[sortKey] ?? -Infinity
+    const bv = b.stats[sortKey] ?? -Infinity
+    return (sortDesc ? -1 : 1) * (av - bv)
+  })
+
+  const toggleSort = (key: string) => {
+    if (key === sortKey) setSortDesc(!sortDesc)
+    else {
+      setSortKey(key)
+      setSortDesc(true)
+    }
+  }
+
+  return (
+    <div className="trade-list">
+      <table className="trade-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Symbol</th>
+            <th>Equity</th>
+            {COLUMNS.map(col => (
+              <th key={col.id} onClick={() => toggleSort(col.id)} className="sortable">
+                {col.label}{sortKey === col.id ? (sortDesc ? ' ▼' : ' ▲') : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row, i) => (
+            <tr key={row.run.symbol} onClick={() => row.run.response && onOpen(row.run)}>
+              <td>{i + 1}</td>
+              <td className="symbol-cell">{row.run.symbol}</td>
+              <td>
+                {row.run.status === 'done'
+                  ? <Sparkline values={row.equity} />
+                  : <span className={row.run.status === 'error' ? 'negative' : ''} title={row.run.error}>{row.run.status}</span>}
+              </td>
+              {COLUMNS.map(col => {
+                const value = row.stats[col.id]
+                const tone = value === null || value === undefined || !SIGNED.has(col.id) ? '' : value >= 0 ? 'positive' : 'negative'
+                return <td key={col.id} className={tone}>{value === null || value === undefined ? '—' : col.format(value)}</td>
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import type { BenchmarkComparison as Comparison } from '../utils/benchmark'
+
+interface BenchmarkComparisonProps {
+  comparison: Comparison
+  symbol: string
+}
+
+const tone = (value: number) => value > 0 ? 'positive' : value < 0 ? 'negative' : ''
+
+export default function BenchmarkComparison({ comparison, symbol }: BenchmarkComparisonProps) {
+  const items = [
+    { label: 'Buy & Hold Return', value: `${comparison.benchmarkReturn.toFixed(2)}%`, tone: tone(comparison.benchmarkReturn) },
+    { label: 'Excess Return', value: `${comparison.excessReturn.toFixed(2)}%`, tone: tone(comparison.excessReturn) },
+    { label: 'Alpha (ann.)', value: `${comparison.alpha.toFixed(2)}%`, tone: tone(comparison.alpha) },
+    { label: 'Beta', value: comparison.beta.toFixed(3), tone: '' },
+    { label: 'Benchmark Sharpe', value: comparison.benchmarkSharpe.toFixed(3), tone: '' },
+    { label: 'Benchmark Max DD', value: `${comparison.benchmarkMaxDrawdown.toFixed(2)}%`, tone: 'negative' },
+  ]
+
+  return (
+    <div className="benchmark-comparison">
+      <span className="metric-label">vs. Buy &amp; Hold {symbol}</span>
+      <div className="metrics-grid">
+        {items.map(item => (
+          <div key={item.label} className="metric metric-small">
+            <span className="metric-label">{item.label}</span>
+            <span className={`metric-value ${item.tone}`}>{item.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,86 +1,298 @@
-import { useEffect, useRef, useState } from 'react'
-import { createChart, CrosshairMode, CandlestickSeries, LineSeries, HistogramSeries } from 'lightweight-charts'
-import type { IChartApi, Time } from 'lightweight-charts'
+import { useEffect, useImperativeHandle, useRef, useState } from 'react'
+import type { Ref } from 'react'
+import { createChart, createSeriesMarkers, CrosshairMode, BaselineSeries, CandlestickSeries, LineSeries, LineStyle, HistogramSeries } from 'lightweight-charts'
+import type { CSSProperties } from 'react'
+import type { IChartApi, ISeriesApi, ISeriesMarkersPluginApi, MouseEventParams, SeriesMarker, SeriesType, Time } from 'lightweight-charts'
+import { worstDrawdownWindow } from '../utils/metrics'
+import { layoutIndicator } from '../utils/indicatorLayout'
+import { BandFill } from '../utils/bandFill'
+import { TimeBands } from '../utils/timeBands'
+import type { TimeBand } from '../utils/timeBands'
+import { AnnotationLayer } from '../utils/annotationLayer'
+import { ANNOTATION_TOOLS, pointsFor } from '../utils/annotations'
+import type { Annotation, AnnotationKind } from '../utils/annotations'
+import type { SeriesStyle, SeriesStyles } from '../utils/chartStyles'
+import { fromChartTime, toChartTime } from '../utils/chartData'
+import type { CandleData, IndicatorsData, LineData, TradeMarker, VolumeData } from '../utils/chartData'
+
+interface TimeRange {
+  from: Time
+  to: Time
+}
 
-interface CandleData {
-  time: Time
-  open: number
-  high: number
-  low: number
-  close: number
+// Color palette for indicators
+const INDICATOR_COLORS = [
+  '#26a69a', // Teal
+  '#ef5350', // Red
+  '#ab47bc', // Purple
+  '#ffa726', // Orange
+  '#42a5f5', // Blue
+  '#66bb6a', // Green
+  '#ec407a', // Pink
+  '#ffee58', // Yellow
+]
+
+// One toggleable entry in the legend. `kind` decides which style controls make sense:
+// candles and volume bars carry their own up/down colors, so they can only be hidden.
+interface LegendSeries {
+  key: string
+  label: string
+  color: string  // Default, before any user override
+  kind: 'candles' | 'histogram' | 'line' | 'baseline'
+  indicator?: boolean
 }
 
-interface VolumeData {
-  time: Time
-  value: number
-  color?: string
+// Every series the chart will draw for these props, in legend order
+function legendSeriesFor(
+  volumeData: VolumeData[],
+  equityData: LineData[],
+  benchmarkData: LineData[],
+  drawdownData: LineData[],
+  indicatorsData: IndicatorsData
+): LegendSeries[] {
+  const rows: LegendSeries[] = [{ key: 'price', label: 'Price', color: '#4bffb5', kind: 'candles' }]
+  if (volumeData.length > 0) rows.push({ key: 'volume', label: 'Vol', color: '#838ca1', kind: 'histogram' })
+  if (equityData.length > 0) rows.push({ key: 'equity', label: 'Equity', color: '#2962FF', kind: 'line' })
+  if (benchmarkData.length > 0) rows.push({ key: 'benchmark', label: 'Buy & Hold', color: '#9e9e9e', kind: 'line' })
+  if (drawdownData.length > 0) rows.push({ key: 'drawdown', label: 'Drawdown', color: '#ef5350', kind: 'baseline' })
+
+  let colorIndex = 0
+  for (const [indicatorName, lines] of Object.entries(indicatorsData)) {
+    for (const [lineName, lineData] of Object.entries(lines)) {
+      if (lineData.length === 0) continue
+      const key = `${indicatorName}.${lineName}`
+      rows.push({ key, label: key, color: INDICATOR_COLORS[colorIndex % INDICATOR_COLORS.length], kind: 'line', indicator: true })
+      colorIndex++
+    }
+  }
+  return rows
 }
 
-interface EquityData {
-  time: Time
-  value: number
+// Series options for a legend entry with the user's overrides applied
+function styleOptions(row: LegendSeries, style: SeriesStyle = {}) {
+  const visible = style.visible ?? true
+  const color = style.color ?? row.color
+  switch (row.kind) {
+    case 'line':
+      return { visible, color, lineWidth: (style.lineWidth ?? (row.key === 'benchmark' ? 1 : 2)) as 1 | 2 | 3 | 4 }
+    case 'baseline':
+      return { visible, bottomLineColor: color, lineWidth: (style.lineWidth ?? 1) as 1 | 2 | 3 | 4 }
+    default:
+      return { visible }
+  }
 }
 
-interface LineData {
+const formatLegendValue = (key: string, value: number) =>
+  key === 'volume' ? value.toLocaleString()
+    : key === 'equity' || key === 'benchmark' ? `$${value.toFixed(2)}`
+      : key === 'drawdown' ? `${value.toFixed(2)}%`
+        : value.toFixed(2)
+
+// What the legend shows: the hovered bar, or the last bar when the crosshair is off the chart
+interface LegendData {
   time: Time
-  value: number
+  price?: { open: number; high: number; low: number; close: number }
+  values: Record<string, number>  // Line/histogram values by series key
+  trades?: TradeMarker[]
 }
 
-interface IndicatorsData {
-  [indicatorName: string]: {
-    [lineName: string]: LineData[]
+// Dates as they are, intraday timestamps as 'YYYY-MM-DD HH:MM UTC'
+const formatTime = (time: Time) =>
+  typeof time === 'number' ? `${new Date(time * 1000).toISOString().slice(0, 16).replace('T', ' ')} UTC` : String(time)
+
+const lastOf = <T,>(data: T[]): T | undefined => data[data.length - 1]
+
+function lastBarLegend(
+  priceData: CandleData[],
+  volumeData: VolumeData[],
+  equityData: LineData[],
+  benchmarkData: LineData[],
+  drawdownData: LineData[],
+  indicatorsData: IndicatorsData
+): LegendData | null {
+  const candle = lastOf(priceData)
+  if (!candle) return null
+
+  const values: Record<string, number> = {}
+  const lastValue = (key: string, data: LineData[]) => {
+    const point = lastOf(data)
+    if (point) values[key] = point.value
   }
+  lastValue('volume', volumeData)
+  lastValue('equity', equityData)
+  lastValue('benchmark', benchmarkData)
+  lastValue('drawdown', drawdownData)
+  for (const [indicatorName, lines] of Object.entries(indicatorsData)) {
+    for (const [lineName, lineData] of Object.entries(lines)) lastValue(`${indicatorName}.${lineName}`, lineData)
+  }
+
+  return { time: candle.time, price: candle, values }
 }
 
-interface TradeMarker {
+// Imperative handle for exports
+export interface ChartHandle {
+  snapshot: (title?: string) => HTMLCanvasElement | null  // Chart canvas with the legend drawn in (last-bar values)
+}
+
+// A spot picked on the price pane
+interface PickedPoint {
   time: Time
-  type: 'buy' | 'sell'
-  price?: number
+  price: number
+}
+
+const toolButtonStyle = (active: boolean): CSSProperties => ({
+  background: active ? '#4fc3f7' : 'none',
+  border: 'none',
+  borderRadius: '3px',
+  color: active ? '#253248' : '#fff',
+  cursor: 'pointer',
+  padding: '2px 6px',
+  font: 'inherit'
+})
+
+interface LegendRow {
+  text: string
+  color: string
+}
+
+// Paint a legend box in the same style as the hover legend onto an exported canvas
+function drawLegend(canvas: HTMLCanvasElement, rows: LegendRow[], scale: number) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx || rows.length === 0) return
+
+  const lineHeight = 19
+  ctx.save()
+  ctx.scale(scale, scale)
+  ctx.font = '12px monospace'
+  ctx.textBaseline = 'top'
+
+  const width = Math.max(...rows.map(row => ctx.measureText(row.text).width)) + 24
+  ctx.fillStyle = 'rgba(37, 50, 72, 0.9)'
+  ctx.fillRect(12, 12, width, rows.length * lineHeight + 16)
+
+  rows.forEach((row, i) => {
+    ctx.fillStyle = row.color
+    ctx.fillText(row.text, 24, 20 + i * lineHeight)
+  })
+  ctx.restore()
 }
 
 interface CandlestickChartProps {
   priceData: CandleData[]
   volumeData?: VolumeData[]
-  equityData?: EquityData[]
+  equityData?: LineData[]
+  benchmarkData?: LineData[]  // Buy-and-hold equity, drawn next to the strategy equity on the left scale
+  drawdownData?: LineData[]  // % below the running equity peak, drawn in its own pane under the price
   indicatorsData?: IndicatorsData
   trades?: TradeMarker[]
+  focusRange?: TimeRange | null  // Scroll the time scale to this range (e.g. a trade picked in the trade list)
+  timeBands?: TimeBand[]  // Shaded stretches of time, e.g. walk-forward out-of-sample windows
+  intraday?: boolean  // Times are UTC timestamps rather than dates, so the axis shows time of day
+  strategyParams?: Record<string, number>  // Thresholds (e.g. RSI oversold/overbought) become reference lines in indicator panes
+  seriesStyles?: SeriesStyles  // Visibility/color/width overrides from the legend
+  onSeriesStyleChange?: (key: string, style: SeriesStyle) => void  // Legend edits; the owner persists them
+  annotations?: Annotation[]  // User drawings
+  onAnnotationsChange?: (annotations: Annotation[]) => void  // Shows the drawing toolbar; the owner persists them
+  chartTime?: (datetime: string) => Time  // Where a backend datetime lands on the chart, e.g. when resampled
   height?: number
+  ref?: Ref<ChartHandle>
 }
 
+// Stable defaults, so an omitted prop doesn't look like new data on every render
+const NO_DATA: never[] = []
+const NO_INDICATORS: IndicatorsData = {}
+const NO_PARAMS: Record<string, number> = {}
+const NO_STYLES: SeriesStyles = {}
+const NO_ANNOTATIONS: Annotation[] = []
+
+type ChartPoint = CandleData | VolumeData | LineData
+
+const samePoint = (a: ChartPoint, b: ChartPoint) =>
+  (Object.keys(a) as (keyof ChartPoint)[]).every(field => a[field] === b[field])
+
+// Push new data into a series. When only the last bar changed or one bar was appended (a live feed),
+// `update()` is enough; anything else is a full `setData()`. Returns true if the data was replaced.
+function applySeriesData(series: ISeriesApi<SeriesType>, prev: ChartPoint[], next: ChartPoint[]): boolean {
+  if (prev === next) return false
+
+  let appendOnly = prev.length > 0
+    && (next.length === prev.length || next.length === prev.length + 1)
+    && prev[prev.length - 1].time === next[prev.length - 1].time
+  for (let i = 0; appendOnly && i < prev.length - 1; i++) {
+    appendOnly = samePoint(prev[i], next[i])
+  }
+
+  if (!appendOnly) {
+    series.setData(next as Parameters<typeof series.setData>[0])
+    return true
+  }
+
+  for (const point of next.slice(prev.length - 1)) {
+    series.update(point as Parameters<typeof series.update>[0])
+  }
+  return false
+}
+
+const priceRangeOf = (priceData: CandleData[]) => priceData.length > 0
+  ? priceData.reduce((range, c) => ({ min: Math.min(range.min, c.low), max: Math.max(range.max, c.high) }), { min: Infinity, max: -Infinity })
+  : null
+
 export default function CandlestickChart({
   priceData,
-  volumeData = [],
-  equityData = [],
-  indicatorsData = {},
-  trades = [],
-  height = 400
+  volumeData = NO_DATA,
+  equityData = NO_DATA,
+  benchmarkData = NO_DATA,
+  drawdownData = NO_DATA,
+  indicatorsData = NO_INDICATORS,
+  trades = NO_DATA,
+  focusRange = null,
+  timeBands = NO_DATA,
+  intraday = false,
+  strategyParams = NO_PARAMS,
+  seriesStyles = NO_STYLES,
+  onSeriesStyleChange,
+  annotations = NO_ANNOTATIONS,
+  onAnnotationsChange,
+  chartTime,
+  height = 400,
+  ref
 }: CandlestickChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null)
   const chartRef = useRef<IChartApi | null>(null)
-  const resizeObserverRef = useRef<ResizeObserver | null>(null)
-  const seriesMap = useRef<Map<string, any>>(new Map())
-
-  const [legendData, setLegendData] = useState<any>(null)
-
-  // Color palette for indicators
-  const indicatorColors = [
-    '#26a69a', // Teal
-    '#ef5350', // Red
-    '#ab47bc', // Purple
-    '#ffa726', // Orange
-    '#42a5f5', // Blue
-    '#66bb6a', // Green
-    '#ec407a', // Pink
-    '#ffee58', // Yellow
-  ]
-
+  const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null)
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null)
+  const seriesMap = useRef<Map<string, ISeriesApi<SeriesType>>>(new Map())
+  const seriesDataRef = useRef<Map<string, ChartPoint[]>>(new Map())  // What each series was last given, to diff against
+  const worstDrawdownRef = useRef<ISeriesApi<'Baseline'> | null>(null)
+  const bandFillsRef = useRef<Map<string, BandFill>>(new Map())
+  const timeBandsRef = useRef<TimeBands | null>(null)
+  const layoutKeyRef = useRef('')  // Which series/panes exist; a change means rebuilding them
+  const legendRowsRef = useRef<LegendSeries[]>([])
+  const tradesByTimeRef = useRef<Map<string, TradeMarker[]>>(new Map())
+  const stylesRef = useRef(seriesStyles)
+  const annotationLayerRef = useRef<AnnotationLayer | null>(null)
+  const pointerRef = useRef<(param: MouseEventParams<Time>, event: 'click' | 'move') => void>(() => {})
+
+  const [legendData, setLegendData] = useState<LegendData | null>(null)
+  const [editingLegend, setEditingLegend] = useState(false)
+  const [tool, setTool] = useState<AnnotationKind | null>(null)
+  const [pending, setPending] = useState<PickedPoint | null>(null)  // First click of a two-point drawing
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [noteDraft, setNoteDraft] = useState<{ point: PickedPoint; x: number; y: number; text: string } | null>(null)
+
+  const legendSeries = legendSeriesFor(volumeData, equityData, benchmarkData, drawdownData, indicatorsData)
+  const legend = legendData ?? lastBarLegend(priceData, volumeData, equityData, benchmarkData, drawdownData, indicatorsData)
+  const colorOf = (row: LegendSeries) => seriesStyles[row.key]?.color ?? row.color
+  const isVisible = (key: string) => seriesStyles[key]?.visible ?? true
+
+  // Create the chart once; the effects below feed it data and add/remove series as the props change
   useEffect(() => {
-    if (!chartContainerRef.current) return
+    const container = chartContainerRef.current
+    if (!container) return
 
-    // Create chart
-    chartRef.current = createChart(chartContainerRef.current, {
-      width: chartContainerRef.current.clientWidth,
-      height: height,
+    const chart = createChart(container, {
+      width: container.clientWidth,
+      height: container.clientHeight,
       layout: {
         background: { color: '#253248' },
         textColor: 'rgba(255, 255, 255, 0.9)',
@@ -101,13 +313,14 @@ export default function CandlestickChart({
       },
       timeScale: {
         borderColor: '#485c7b',
-        timeVisible: true,
+        timeVisible: false,
         secondsVisible: false,
       },
     })
+    chartRef.current = chart
 
     // Add candlestick series
-    const candleSeries = chartRef.current.addSeries(CandlestickSeries, {
+    const candleSeries = chart.addSeries(CandlestickSeries, {
       upColor: '#4bffb5',
       downColor: '#ff4976',
       borderDownColor: '#ff4976',
@@ -117,16 +330,192 @@ export default function CandlestickChart({
       lastValueVisible: false,
       priceLineVisible: false,
     })
+    candleSeriesRef.current = candleSeries
+
+    // Buy/sell markers (v5 moved markers into the createSeriesMarkers plugin)
+    markersRef.current = createSeriesMarkers(candleSeries, [])
+
+    // User drawings, over everything else on the price pane
+    const annotationLayer = new AnnotationLayer()
+    candleSeries.attachPrimitive(annotationLayer)
+    annotationLayerRef.current = annotationLayer
+    chart.subscribeClick(param => pointerRef.current(param, 'click'))
+
+    // Subscribe to crosshair move for legend
+    chart.subscribeCrosshairMove((param) => {
+      pointerRef.current(param, 'move')
+      if (!param.time) {
+        setLegendData(null)
+        return
+      }
+
+      const data: LegendData = { time: param.time, values: {} }
+
+      // OHLC from the candles, a single value from everything else
+      const candle = param.seriesData.get(candleSeries)
+      if (candle && 'open' in candle) {
+        data.price = candle
+      }
+
+      for (const row of legendRowsRef.current) {
+        const series = row.key === 'price' ? undefined : seriesMap.current.get(row.key)
+        const point = series ? param.seriesData.get(series) : undefined
+        if (point && 'value' in point && typeof point.value === 'number') {
+          data.values[row.key] = point.value
+        }
+      }
+
+      // Trades executed on the hovered bar
+      const barTrades = tradesByTimeRef.current.get(String(param.time))
+      if (barTrades) {
+        data.trades = barTrades
+      }
+
+      setLegendData(data)
+    })
+
+    // Follow the container width; the zoom is left alone
+    const resizeObserver = new ResizeObserver(entries => {
+      chart.applyOptions({ width: entries[0].contentRect.width })
+    })
+    resizeObserver.observe(container)
+
+    const seriesByKey = seriesMap.current
+    const dataByKey = seriesDataRef.current
+    const bandFills = bandFillsRef.current
+    return () => {
+      resizeObserver.disconnect()
+      chart.remove()
+      chartRef.current = null
+      candleSeriesRef.current = null
+      markersRef.current = null
+      worstDrawdownRef.current = null
+      timeBandsRef.current = null
+      annotationLayerRef.current = null
+      seriesByKey.clear()
+      dataByKey.clear()
+      bandFills.clear()
+      layoutKeyRef.current = ''
+    }
+  }, [])
 
-    candleSeries.setData(priceData)
-    seriesMap.current.set('price', candleSeries)
+  useEffect(() => {
+    chartRef.current?.applyOptions({ height })
+  }, [height])
+
+  useEffect(() => {
+    chartRef.current?.applyOptions({ timeScale: { timeVisible: intraday } })
+  }, [intraday])
+
+  // Candles. A new run (different first bar) is fitted to the view; otherwise the user's zoom/scroll is kept
+  useEffect(() => {
+    const chart = chartRef.current
+    const candleSeries = candleSeriesRef.current
+    if (!chart || !candleSeries) return
 
-    // TODO: Add buy/sell markers - requires different API in v5
-    // Markers functionality will be added after chart is working
+    const prev = (seriesDataRef.current.get('price') ?? []) as CandleData[]
+    const timeScale = chart.timeScale()
+    const visibleRange = timeScale.getVisibleLogicalRange()
+    const sameRun = prev.length > 0 && priceData.length > 0 && prev[0].time === priceData[0].time
+
+    const replaced = applySeriesData(candleSeries, prev, priceData)
+    seriesDataRef.current.set('price', priceData)
+
+    if (!sameRun) timeScale.fitContent()
+    else if (replaced && visibleRange) timeScale.setVisibleLogicalRange(visibleRange)
+  }, [priceData])
+
+  // Markers must be sorted by time; when the backend sends a fill price we pin the arrow to it
+  useEffect(() => {
+    const tradesByTime = new Map<string, TradeMarker[]>()
+    const markers: SeriesMarker<Time>[] = [...trades]
+      .sort((a, b) => String(a.time).localeCompare(String(b.time)))
+      .map(trade => {
+        const key = String(trade.time)
+        tradesByTime.set(key, [...(tradesByTime.get(key) || []), trade])
+
+        const isBuy = trade.type === 'buy'
+        const base = {
+          time: trade.time,
+          shape: isBuy ? 'arrowUp' as const : 'arrowDown' as const,
+          color: isBuy ? '#26a69a' : '#ef5350',
+          text: isBuy ? 'B' : 'S',
+        }
+
+        return trade.price !== undefined
+          ? { ...base, position: isBuy ? 'atPriceBottom' as const : 'atPriceTop' as const, price: trade.price }
+          : { ...base, position: isBuy ? 'belowBar' as const : 'aboveBar' as const }
+      })
+
+    tradesByTimeRef.current = tradesByTime
+    markersRef.current?.setMarkers(markers)
+  }, [trades])
+
+  // Volume, equity, benchmark, drawdown and indicators. If the same series are still wanted in the same
+  // panes, only their data is pushed; otherwise they're all removed and re-added (the candles stay)
+  useEffect(() => {
+    const chart = chartRef.current
+    if (!chart) return
+
+    const rows = legendSeriesFor(volumeData, equityData, benchmarkData, drawdownData, indicatorsData)
+    const priceRange = priceRangeOf(priceData)
+    const layouts = Object.entries(indicatorsData).map(([name, lines]) => ({
+      name,
+      lines,
+      layout: layoutIndicator(name, lines, priceRange, strategyParams)
+    }))
+    const layoutKey = JSON.stringify([rows.map(row => row.key), layouts.map(({ name, layout }) => [name, layout])])
+
+    const dataFor = (key: string): ChartPoint[] => {
+      if (key === 'volume') return volumeData
+      if (key === 'equity') return equityData
+      if (key === 'benchmark') return benchmarkData
+      if (key === 'drawdown') return drawdownData
+      const [indicatorName, lineName] = [key.slice(0, key.indexOf('.')), key.slice(key.indexOf('.') + 1)]
+      return indicatorsData[indicatorName]?.[lineName] ?? []
+    }
+
+    const worst = worstDrawdownWindow(drawdownData.map(point => point.value))
+    const worstData = worst ? drawdownData.slice(worst.start, worst.end + 1) : []
+
+    if (layoutKey === layoutKeyRef.current) {
+      for (const row of rows) {
+        const series = seriesMap.current.get(row.key)
+        if (!series) continue
+        const data = dataFor(row.key)
+        applySeriesData(series, seriesDataRef.current.get(row.key) ?? [], data)
+        seriesDataRef.current.set(row.key, data)
+      }
+      worstDrawdownRef.current?.setData(worstData)
+      for (const { name, lines, layout } of layouts) {
+        if (layout.band) bandFillsRef.current.get(name)?.setData(lines[layout.band.upper], lines[layout.band.lower])
+      }
+      return
+    }
+
+    // Rebuild: drop everything but the candles (emptied panes go away with their series)
+    seriesMap.current.forEach((series, key) => {
+      if (key !== 'price') chart.removeSeries(series)
+    })
+    if (worstDrawdownRef.current) chart.removeSeries(worstDrawdownRef.current)
+    seriesMap.current.clear()
+    worstDrawdownRef.current = null
+    bandFillsRef.current.clear()
+    for (const key of [...seriesDataRef.current.keys()]) {
+      if (key !== 'price') seriesDataRef.current.delete(key)
+    }
+    if (candleSeriesRef.current) seriesMap.current.set('price', candleSeriesRef.current)
+
+    const defaultColors = new Map(rows.map(row => [row.key, row.color]))
+    const addSeriesData = (key: string, series: ISeriesApi<SeriesType>, data: ChartPoint[]) => {
+      series.setData(data as Parameters<typeof series.setData>[0])
+      seriesMap.current.set(key, series)
+      seriesDataRef.current.set(key, data)
+    }
 
     // Add volume series if data provided
     if (volumeData.length > 0) {
-      const volumeSeries = chartRef.current.addSeries(HistogramSeries, {
+      const volumeSeries = chart.addSeries(HistogramSeries, {
         color: '#182233',
         priceFormat: {
           type: 'volume',
@@ -135,9 +524,7 @@ export default function CandlestickChart({
         lastValueVisible: false,
         priceLineVisible: false,
       })
-
-      volumeSeries.setData(volumeData)
-      seriesMap.current.set('volume', volumeSeries)
+      addSeriesData('volume', volumeSeries, volumeData)
 
       // Apply scale margins to make volume overlay at bottom
       volumeSeries.priceScale().applyOptions({
@@ -150,7 +537,7 @@ export default function CandlestickChart({
 
     // Add equity line series if data provided
     if (equityData.length > 0) {
-      const equitySeries = chartRef.current.addSeries(LineSeries, {
+      const equitySeries = chart.addSeries(LineSeries, {
         color: '#2962FF',
         lineWidth: 2,
         priceScaleId: 'left',
@@ -162,130 +549,359 @@ export default function CandlestickChart({
         lastValueVisible: false,
         priceLineVisible: false,
       })
-
-      equitySeries.setData(equityData)
-      seriesMap.current.set('equity', equitySeries)
+      addSeriesData('equity', equitySeries, equityData)
     }
 
-    // Add indicator lines if data provided
-    if (Object.keys(indicatorsData).length > 0) {
-      let colorIndex = 0
-
-      for (const [indicatorName, lines] of Object.entries(indicatorsData)) {
-        for (const [lineName, lineData] of Object.entries(lines)) {
-          if (lineData.length === 0) continue
-
-          const fullName = `${indicatorName}.${lineName}`
-          const indicatorSeries = chartRef.current.addSeries(LineSeries, {
-            color: indicatorColors[colorIndex % indicatorColors.length],
-            lineWidth: 2,
-            priceScaleId: 'right',
-            title: fullName,
-            priceFormat: {
-              type: 'price',
-              precision: 2,
-              minMove: 0.01,
-            },
-            lastValueVisible: false,
-            priceLineVisible: false,
-          })
-
-          indicatorSeries.setData(lineData)
-          seriesMap.current.set(fullName, { series: indicatorSeries, color: indicatorColors[colorIndex % indicatorColors.length] })
-          colorIndex++
-        }
-      }
+    // Add buy-and-hold benchmark line on the same scale as equity
+    if (benchmarkData.length > 0) {
+      const benchmarkSeries = chart.addSeries(LineSeries, {
+        color: '#9e9e9e',
+        lineWidth: 1,
+        lineStyle: LineStyle.Dashed,
+        priceScaleId: 'left',
+        priceFormat: {
+          type: 'price',
+          precision: 2,
+          minMove: 0.01,
+        },
+        lastValueVisible: false,
+        priceLineVisible: false,
+      })
+      addSeriesData('benchmark', benchmarkSeries, benchmarkData)
     }
 
-    // Subscribe to crosshair move for legend
-    chartRef.current.subscribeCrosshairMove((param) => {
-      if (!param.time) {
-        setLegendData(null)
-        return
+    // Add drawdown ("underwater") pane under the price chart - panes share the time scale
+    if (drawdownData.length > 0) {
+      const drawdownOptions = {
+        baseValue: { type: 'price' as const, price: 0 },
+        topLineColor: 'rgba(0, 0, 0, 0)',
+        topFillColor1: 'rgba(0, 0, 0, 0)',
+        topFillColor2: 'rgba(0, 0, 0, 0)',
+        bottomLineColor: '#ef5350',
+        lineWidth: 1 as const,
+        priceFormat: {
+          type: 'custom' as const,
+          formatter: (value: number) => `${value.toFixed(1)}%`,
+        },
+        lastValueVisible: false,
+        priceLineVisible: false,
       }
 
-      const data: any = { time: param.time }
+      const drawdownSeries = chart.addSeries(BaselineSeries, {
+        ...drawdownOptions,
+        bottomFillColor1: 'rgba(239, 83, 80, 0.15)',
+        bottomFillColor2: 'rgba(239, 83, 80, 0.35)',
+      }, 1)
+      addSeriesData('drawdown', drawdownSeries, drawdownData)
+
+      // Highlight the worst drawdown, from the peak it fell from until it recovered
+      const worstSeries = chart.addSeries(BaselineSeries, {
+        ...drawdownOptions,
+        bottomLineColor: '#ff1744',
+        bottomFillColor1: 'rgba(255, 23, 68, 0.45)',
+        bottomFillColor2: 'rgba(255, 23, 68, 0.7)',
+        crosshairMarkerVisible: false,
+      }, 1)
+      worstSeries.setData(worstData)
+      worstDrawdownRef.current = worstSeries
+
+      chart.panes()[1]?.setStretchFactor(0.25)
+      chart.panes()[0]?.setStretchFactor(0.75)
+    }
 
-      // Get price data
-      const priceSeries = seriesMap.current.get('price')
-      if (priceSeries) {
-        const priceData = param.seriesData.get(priceSeries)
-        if (priceData) {
-          data.price = priceData
-        }
+    // Add indicator lines: overlays share the candles' scale, oscillators get a pane each (see indicatorLayout)
+    let nextPane = drawdownData.length > 0 ? 2 : 1
+
+    for (const { name: indicatorName, lines, layout } of layouts) {
+      const paneIndex = layout.placement === 'pane' ? nextPane++ : 0
+      const { range } = layout
+      const lineSeries: Record<string, ISeriesApi<'Line'>> = {}
+
+      for (const [lineName, lineData] of Object.entries(lines)) {
+        if (lineData.length === 0) continue
+
+        const fullName = `${indicatorName}.${lineName}`
+        const indicatorSeries = chart.addSeries(LineSeries, {
+          color: defaultColors.get(fullName) ?? '#fff',
+          lineWidth: 2,
+          priceScaleId: 'right',
+          title: fullName,
+          priceFormat: {
+            type: 'price',
+            precision: 2,
+            minMove: 0.01,
+          },
+          lastValueVisible: false,
+          priceLineVisible: false,
+          // Bounded oscillators keep their full scale instead of zooming into the data
+          ...(range && {
+            autoscaleInfoProvider: () => ({ priceRange: { minValue: range.min, maxValue: range.max } }),
+          }),
+        }, paneIndex)
+
+        addSeriesData(fullName, indicatorSeries, lineData)
+        lineSeries[lineName] = indicatorSeries
       }
 
-      // Get volume data
-      const volumeSeries = seriesMap.current.get('volume')
-      if (volumeSeries) {
-        const volData = param.seriesData.get(volumeSeries)
-        if (volData && 'value' in volData) {
-          data.volume = volData.value
-        }
+      // Threshold guides (oversold/overbought...) on the pane's first line
+      const firstSeries = Object.values(lineSeries)[0]
+      for (const level of layout.referenceLines) {
+        firstSeries?.createPriceLine({
+          price: level.value,
+          color: 'rgba(255, 255, 255, 0.4)',
+          lineWidth: 1,
+          lineStyle: LineStyle.Dashed,
+          axisLabelVisible: true,
+          title: level.label,
+        })
       }
 
-      // Get equity data
-      const equitySeries = seriesMap.current.get('equity')
-      if (equitySeries) {
-        const eqData = param.seriesData.get(equitySeries)
-        if (eqData && 'value' in eqData) {
-          data.equity = eqData.value
-        }
+      if (layout.band && lineSeries[layout.band.upper]) {
+        const bandFill = new BandFill(lines[layout.band.upper], lines[layout.band.lower], 'rgba(66, 165, 245, 0.12)')
+        lineSeries[layout.band.upper].attachPrimitive(bandFill)
+        bandFillsRef.current.set(indicatorName, bandFill)
       }
+    }
 
-      // Get indicator data
-      data.indicators = {}
-      seriesMap.current.forEach((value, key) => {
-        if (key !== 'price' && key !== 'volume' && key !== 'equity') {
-          const indicatorData = param.seriesData.get(value.series)
-          if (indicatorData && 'value' in indicatorData) {
-            data.indicators[key] = {
-              value: indicatorData.value,
-              color: value.color
-            }
-          }
-        }
-      })
+    // Price keeps most of the height; extra panes (drawdown, oscillators) split the rest
+    const panes = chart.panes()
+    if (layouts.length > 0 && panes.length > 1) {
+      const mainShare = Math.max(0.4, 1 - 0.22 * (panes.length - 1))
+      panes.forEach((pane, i) => pane.setStretchFactor(i === 0 ? mainShare : (1 - mainShare) / (panes.length - 1)))
+    }
 
-      setLegendData(data)
-    })
+    // Saved visibility/colors/widths from the legend
+    for (const row of rows) {
+      seriesMap.current.get(row.key)?.applyOptions(styleOptions(row, stylesRef.current[row.key]))
+    }
+    worstDrawdownRef.current?.applyOptions({ visible: stylesRef.current.drawdown?.visible ?? true })
 
-    // Fit content to show all data
-    chartRef.current.timeScale().fitContent()
+    legendRowsRef.current = rows
+    layoutKeyRef.current = layoutKey
+  }, [priceData, volumeData, equityData, benchmarkData, drawdownData, indicatorsData, strategyParams])
 
-    // Cleanup function
-    return () => {
-      if (chartRef.current) {
-        chartRef.current.remove()
-        chartRef.current = null
+  // Restyle the existing series in place - a color change shouldn't rebuild anything
+  useEffect(() => {
+    stylesRef.current = seriesStyles
+    for (const row of legendRowsRef.current) {
+      seriesMap.current.get(row.key)?.applyOptions(styleOptions(row, seriesStyles[row.key]))
+    }
+    worstDrawdownRef.current?.applyOptions({ visible: seriesStyles.drawdown?.visible ?? true })
+  }, [seriesStyles])
+
+  // Attached to the candle series once, then just handed new bands
+  useEffect(() => {
+    if (timeBandsRef.current) {
+      timeBandsRef.current.setBands(timeBands)
+    } else if (candleSeriesRef.current) {
+      timeBandsRef.current = new TimeBands(timeBands)
+      candleSeriesRef.current.attachPrimitive(timeBandsRef.current)
+    }
+  }, [timeBands])
+
+  // Drawings come in anchored to backend datetimes; the layer wants them on the chart's time scale
+  useEffect(() => {
+    const toTime = chartTime ?? ((datetime: string) => toChartTime(datetime, intraday))
+    annotationLayerRef.current?.setAnnotations(
+      annotations.map(annotation => ({
+        ...annotation,
+        points: annotation.points.map(point => ({ time: toTime(point.time), price: point.price }))
+      })),
+      selectedId
+    )
+  }, [annotations, selectedId, chartTime, intraday])
+
+  const finishDrawing = () => {
+    setTool(null)
+    setPending(null)
+    annotationLayerRef.current?.setDraft(null)
+  }
+
+  const addAnnotation = (kind: AnnotationKind, points: PickedPoint[], text?: string) => {
+    onAnnotationsChange?.([...annotations, {
+      id: crypto.randomUUID(),
+      kind,
+      points: points.map(point => ({ time: fromChartTime(point.time), price: Math.round(point.price * 10_000) / 10_000 })),
+      ...(text !== undefined && { text })
+    }])
+    finishDrawing()
+  }
+
+  const deleteSelected = () => {
+    onAnnotationsChange?.(annotations.filter(annotation => annotation.id !== selectedId))
+    setSelectedId(null)
+  }
+
+  const selectTool = (kind: AnnotationKind) => {
+    finishDrawing()
+    setSelectedId(null)
+    if (tool !== kind) setTool(kind)
+  }
+
+  // Chart clicks and mouse moves, routed through a ref so the handlers subscribed once see current state
+  useEffect(() => {
+    pointerRef.current = (param, event) => {
+      const chart = chartRef.current
+      const series = candleSeriesRef.current
+      const layer = annotationLayerRef.current
+      if (!chart || !series || !layer || !onAnnotationsChange) return
+
+      // Only the price pane takes drawings
+      let point: PickedPoint | null = null
+      if (param.point && (param.paneIndex ?? 0) === 0) {
+        const time = param.time ?? chart.timeScale().coordinateToTime(param.point.x)
+        const price = series.coordinateToPrice(param.point.y)
+        if (time !== null && price !== null) point = { time, price }
+      }
+
+      if (event === 'move') {
+        if (tool && pending) layer.setDraft(point ? { id: 'draft', kind: tool, points: [pending, point] } : null)
+        return
+      }
+
+      if (!tool) {
+        setSelectedId(param.point && (param.paneIndex ?? 0) === 0 ? layer.annotationAt(param.point.x, param.point.y) : null)
+        return
+      }
+      if (!point || !param.point) return
+
+      if (tool === 'note') {
+        setNoteDraft({ point, x: param.point.x, y: param.point.y, text: '' })
+        finishDrawing()
+      } else if (pointsFor(tool) === 2 && !pending) {
+        setPending(point)
+      } else {
+        addAnnotation(tool, pending ? [pending, point] : [point])
       }
     }
-  }, [priceData, volumeData, equityData, indicatorsData, trades, height])
+  })
 
-  // Handle resize
+  // Escape drops whatever is being drawn, Delete removes the selected drawing
   useEffect(() => {
-    if (!chartContainerRef.current || !chartRef.current) return
-
-    resizeObserverRef.current = new ResizeObserver(entries => {
-      const { width } = entries[0].contentRect
-      chartRef.current?.applyOptions({ width, height })
-      setTimeout(() => {
-        chartRef.current?.timeScale().fitContent()
-      }, 0)
-    })
+    if (!tool && !selectedId) return
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      if (e.key === 'Escape') {
+        setTool(null)
+        setPending(null)
+        setSelectedId(null)
+        annotationLayerRef.current?.setDraft(null)
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+        onAnnotationsChange?.(annotations.filter(annotation => annotation.id !== selectedId))
+        setSelectedId(null)
+      }
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [tool, selectedId, annotations, onAnnotationsChange])
 
-    resizeObserverRef.current.observe(chartContainerRef.current)
+  const commitNote = () => {
+    if (noteDraft && noteDraft.text.trim()) addAnnotation('note', [noteDraft.point], noteDraft.text.trim())
+    setNoteDraft(null)
+  }
 
-    return () => {
-      resizeObserverRef.current?.disconnect()
+  // Zoom to the focused range with a few bars of padding either side
+  useEffect(() => {
+    const timeScale = chartRef.current?.timeScale()
+    if (!timeScale || !focusRange) return
+
+    const fromIndex = timeScale.timeToIndex(focusRange.from, true)
+    const toIndex = timeScale.timeToIndex(focusRange.to, true)
+    if (fromIndex !== null && toIndex !== null) {
+      const padding = Math.max(10, Math.round((toIndex - fromIndex) * 0.5))
+      timeScale.setVisibleLogicalRange({ from: fromIndex - padding, to: toIndex + padding })
     }
-  }, [height])
+  }, [focusRange])
+
+  useImperativeHandle(ref, () => ({
+    snapshot: (title?: string) => {
+      if (!chartRef.current || !chartContainerRef.current) return null
+
+      const canvas = chartRef.current.takeScreenshot()
+      const bar = lastBarLegend(priceData, volumeData, equityData, benchmarkData, drawdownData, indicatorsData)
+      const rows: LegendRow[] = []
+
+      if (title) rows.push({ text: title, color: 'rgba(255, 255, 255, 0.7)' })
+      if (bar) rows.push({ text: formatTime(bar.time), color: 'rgba(255, 255, 255, 0.7)' })
+
+      // Same series and colors as on screen; hidden ones are left out
+      for (const row of legendSeriesFor(volumeData, equityData, benchmarkData, drawdownData, indicatorsData)) {
+        if (!bar || seriesStyles[row.key]?.visible === false) continue
+        const color = seriesStyles[row.key]?.color ?? row.color
+        if (row.key === 'price' && bar.price) {
+          const { open, high, low, close } = bar.price
+          rows.push({ text: `O: ${open.toFixed(2)} H: ${high.toFixed(2)} L: ${low.toFixed(2)} C: ${close.toFixed(2)}`, color: '#fff' })
+        } else if (row.key !== 'volume' && bar.values[row.key] !== undefined) {
+          rows.push({ text: `${row.label}: ${formatLegendValue(row.key, bar.values[row.key])}`, color })
+        }
+      }
+
+      // The screenshot is in device pixels, the legend layout is in CSS pixels
+      drawLegend(canvas, rows, canvas.width / chartContainerRef.current.clientWidth)
+      return canvas
+    }
+  }), [priceData, volumeData, equityData, benchmarkData, drawdownData, indicatorsData, seriesStyles])
 
   return (
-    <div style={{ position: 'relative', width: '100%', height: `${height}px` }}>
+    <div style={{ position: 'relative', width: '100%', height: `${height}px`, cursor: tool ? 'crosshair' : undefined }}>
       <div ref={chartContainerRef} style={{ width: '100%', height: '100%' }} />
 
-      {legendData && (
+      {onAnnotationsChange && (
+        <div style={{
+          position: 'absolute',
+          top: '12px',
+          right: '80px',
+          display: 'flex',
+          gap: '2px',
+          backgroundColor: 'rgba(37, 50, 72, 0.9)',
+          padding: '4px',
+          borderRadius: '4px',
+          fontSize: '12px',
+          fontFamily: 'monospace',
+          zIndex: 10
+        }}>
+          {ANNOTATION_TOOLS.map(t => (
+            <button key={t.kind} type="button" onClick={() => selectTool(t.kind)} title={t.title} style={toolButtonStyle(tool === t.kind)}>
+              {t.label}
+            </button>
+          ))}
+          {selectedId && (
+            <button type="button" onClick={deleteSelected} title="Delete the selected drawing (Del)" style={{ ...toolButtonStyle(false), color: '#ef5350' }}>
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      {noteDraft && (
+        <input
+          autoFocus
+          value={noteDraft.text}
+          onChange={e => setNoteDraft({ ...noteDraft, text: e.target.value })}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitNote()
+            else if (e.key === 'Escape') setNoteDraft(null)
+          }}
+          onBlur={commitNote}
+          placeholder="Note, Enter to save"
+          style={{
+            position: 'absolute',
+            left: `${noteDraft.x + 6}px`,
+            top: `${noteDraft.y - 22}px`,
+            width: '200px',
+            fontSize: '12px',
+            padding: '2px 6px',
+            background: '#253248',
+            color: '#fff',
+            border: '1px solid #4fc3f7',
+            borderRadius: '3px',
+            outline: 'none',
+            zIndex: 11
+          }}
+        />
+      )}
+
+      {legend && (
         <div style={{
           position: 'absolute',
           top: '12px',
@@ -296,38 +912,96 @@ export default function CandlestickChart({
           fontSize: '12px',
           fontFamily: 'monospace',
           color: '#fff',
-          pointerEvents: 'none',
           zIndex: 10,
           lineHeight: '1.6'
         }}>
-          <div style={{ marginBottom: '4px', opacity: 0.7 }}>{legendData.time}</div>
-
-          {legendData.price && (
-            <div style={{ marginBottom: '2px' }}>
-              <span style={{ color: '#4bffb5' }}>O:</span> {legendData.price.open?.toFixed(2)} {' '}
-              <span style={{ color: '#4bffb5' }}>H:</span> {legendData.price.high?.toFixed(2)} {' '}
-              <span style={{ color: '#ff4976' }}>L:</span> {legendData.price.low?.toFixed(2)} {' '}
-              <span style={{ color: '#fff' }}>C:</span> {legendData.price.close?.toFixed(2)}
-            </div>
-          )}
-
-          {legendData.volume && (
-            <div style={{ marginBottom: '2px', opacity: 0.7 }}>
-              Vol: {legendData.volume.toLocaleString()}
-            </div>
-          )}
-
-          {legendData.equity && (
-            <div style={{ marginBottom: '2px', color: '#2962FF' }}>
-              Equity: ${legendData.equity.toFixed(2)}
-            </div>
-          )}
-
-          {Object.keys(legendData.indicators || {}).length > 0 && (
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', marginBottom: '4px' }}>
+            <span style={{ opacity: 0.7 }}>{formatTime(legend.time)}</span>
+            {onSeriesStyleChange && (
+              <button
+                type="button"
+                onClick={() => setEditingLegend(editing => !editing)}
+                title={editingLegend ? 'Done' : 'Colors and line widths'}
+                style={{ background: 'none', border: 'none', color: '#fff', opacity: editingLegend ? 1 : 0.6, cursor: 'pointer', padding: 0, font: 'inherit' }}
+              >
+                {editingLegend ? '✓' : '⚙'}
+              </button>
+            )}
+          </div>
+
+          {legendSeries.map((row, i) => {
+            const visible = isVisible(row.key)
+            const color = colorOf(row)
+            const value = legend.values[row.key]
+            const firstIndicator = row.indicator && !legendSeries[i - 1]?.indicator
+
+            return (
+              <div key={row.key} style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                marginBottom: '2px',
+                opacity: visible ? 1 : 0.4,
+                ...(firstIndicator && { marginTop: '4px', paddingTop: '4px', borderTop: '1px solid rgba(255,255,255,0.1)' })
+              }}>
+                {/* Click a name to show/hide the series */}
+                <span
+                  onClick={() => onSeriesStyleChange?.(row.key, { visible: !visible })}
+                  title={onSeriesStyleChange ? (visible ? 'Hide' : 'Show') : undefined}
+                  style={{
+                    color: row.kind === 'candles' || row.kind === 'histogram' ? '#fff' : color,
+                    opacity: row.kind === 'histogram' ? 0.7 : 1,
+                    cursor: onSeriesStyleChange ? 'pointer' : 'default',
+                    textDecoration: visible ? 'none' : 'line-through',
+                    userSelect: 'none'
+                  }}
+                >
+                  {row.label}:
+                </span>
+
+                {row.key === 'price' ? (
+                  legend.price && (
+                    <span>
+                      <span style={{ color: '#4bffb5' }}>O:</span> {legend.price.open.toFixed(2)} {' '}
+                      <span style={{ color: '#4bffb5' }}>H:</span> {legend.price.high.toFixed(2)} {' '}
+                      <span style={{ color: '#ff4976' }}>L:</span> {legend.price.low.toFixed(2)} {' '}
+                      <span style={{ color: '#fff' }}>C:</span> {legend.price.close.toFixed(2)}
+                    </span>
+                  )
+                ) : (
+                  <span style={{ color: row.kind === 'histogram' ? '#fff' : color, opacity: row.kind === 'histogram' ? 0.7 : 1 }}>
+                    {value !== undefined ? formatLegendValue(row.key, value) : '-'}
+                  </span>
+                )}
+
+                {editingLegend && onSeriesStyleChange && (row.kind === 'line' || row.kind === 'baseline') && (
+                  <>
+                    <input
+                      type="color"
+                      value={color}
+                      onChange={(e) => onSeriesStyleChange(row.key, { color: e.target.value })}
+                      title="Color"
+                      style={{ width: '18px', height: '16px', padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+                    />
+                    <select
+                      value={seriesStyles[row.key]?.lineWidth ?? (row.kind === 'baseline' || row.key === 'benchmark' ? 1 : 2)}
+                      onChange={(e) => onSeriesStyleChange(row.key, { lineWidth: Number(e.target.value) })}
+                      title="Line width"
+                      style={{ fontSize: '11px', padding: 0, background: '#253248', color: '#fff', border: '1px solid #485c7b' }}
+                    >
+                      {[1, 2, 3, 4].map(width => <option key={width} value={width}>{width}px</option>)}
+                    </select>
+                  </>
+                )}
+              </div>
+            )
+          })}
+
+          {legend.trades && (
             <div style={{ marginTop: '4px', paddingTop: '4px', borderTop: '1px solid rgba(255,255,255,0.1)' }}>
-              {Object.entries(legendData.indicators).map(([name, data]: [string, any]) => (
-                <div key={name} style={{ color: data.color }}>
-                  {name}: {data.value?.toFixed(2)}
+              {legend.trades.map((trade, i) => (
+                <div key={i} style={{ color: trade.type === 'buy' ? '#26a69a' : '#ef5350' }}>
+                  {trade.type.toUpperCase()}{trade.price !== undefined ? ` @ ${trade.price.toFixed(2)}` : ''}
                 </div>
               ))}
             </div>
@@ -0,0 +1,102 @@
+import { useRef } from 'react'
+import type { KeyboardEvent, ReactNode, UIEvent } from 'react'
+
+interface CodeEditorProps {
+  value: string
+  onChange: (value: string) => void
+  height?: number
+}
+
+const PYTHON_KEYWORDS = new Set([
+  'and', 'as', 'assert', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+  'False', 'finally', 'for', 'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or',
+  'pass', 'raise', 'return', 'self', 'True', 'try', 'while', 'with', 'yield'
+])
+
+// Comments, strings, numbers, identifiers - in that priority order
+const TOKEN_PATTERN = /(#.*$)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(\b\d+(?:\.\d*)?\b)|([A-Za-z_]\w*)/gm
+
+// Minimal python highlighter - good enough for strategy files, no dependency needed
+function highlight(code: string): ReactNode[] {
+  const nodes: ReactNode[] = []
+  let last = 0
+
+  for (const match of code.matchAll(TOKEN_PATTERN)) {
+    const [text, comment, string, number, word] = match
+    const index = match.index ?? 0
+    if (index > last) nodes.push(code.slice(last, index))
+
+    let className = ''
+    if (comment) className = 'tok-comment'
+    else if (string) className = 'tok-string'
+    else if (number) className = 'tok-number'
+    else if (word && PYTHON_KEYWORDS.has(word)) className = 'tok-keyword'
+    else if (word && code[index + text.length] === '(') className = 'tok-call'
+
+    nodes.push(className ? <span key={index} className={className}>{text}</span> : text)
+    last = index + text.length
+  }
+
+  nodes.push(code.slice(last))
+  return nodes
+}
+
+export default function CodeEditor({ value, onChange, height = 360 }: CodeEditorProps) {
+  const highlightRef = useRef<HTMLPreElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+
+  const lineCount = value.split('\n').length
+
+  // Keep the highlighted layer and line numbers scrolled with the textarea
+  const syncScroll = (e: UIEvent<HTMLTextAreaElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = scrollTop
+      highlightRef.current.scrollLeft = scrollLeft
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = scrollTop
+    }
+  }
+
+  // Tab inserts 4 spaces instead of leaving the field (python indentation)
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return
+    e.preventDefault()
+
+    const textarea = e.currentTarget
+    const { selectionStart, selectionEnd } = textarea
+    const next = `${value.slice(0, selectionStart)}    ${value.slice(selectionEnd)}`
+    onChange(next)
+
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + 4
+    })
+  }
+
+  return (
+    <div className="code-editor" style={{ height: `${height}px` }}>
+      <div ref={gutterRef} className="code-gutter" aria-hidden="true">
+        {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+      </div>
+      <div className="code-body">
+        <pre ref={highlightRef} className="code-highlight" aria-hidden="true">
+          {highlight(value)}
+          {/* Trailing newline keeps the last empty line's height in sync with the textarea */}
+          {'\n'}
+        </pre>
+        <textarea
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onKeyDown={handleKeyDown}
+          className="code-input"
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          autoCorrect="off"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react'
+import { createChart, CrosshairMode, LineSeries } from 'lightweight-charts'
+import type { IChartApi, ISeriesApi, Time } from 'lightweight-charts'
+
+interface LineData {
+  time: Time
+  value: number
+}
+
+export interface CompareSeries {
+  id: string
+  label: string
+  color: string
+  equity: LineData[]    // Normalized to 100 at the start
+  drawdown: LineData[]  // % below running peak
+}
+
+interface CompareChartProps {
+  series: CompareSeries[]
+  height?: number
+}
+
+interface LegendRow {
+  label: string
+  color: string
+  equity?: number
+  drawdown?: number
+}
+
+// Equity curves of several runs on one chart, with a drawdown pane underneath on the same time scale
+export default function CompareChart({ series, height = 480 }: CompareChartProps) {
+  const chartContainerRef = useRef<HTMLDivElement>(null)
+  const chartRef = useRef<IChartApi | null>(null)
+  const [legend, setLegend] = useState<{ time: Time; rows: LegendRow[] } | null>(null)
+
+  useEffect(() => {
+    if (!chartContainerRef.current) return
+
+    const chart = createChart(chartContainerRef.current, {
+      width: chartContainerRef.current.clientWidth,
+      height,
+      layout: {
+        background: { color: '#253248' },
+        textColor: 'rgba(255, 255, 255, 0.9)',
+      },
+      grid: {
+        vertLines: { color: '#334158' },
+        horzLines: { color: '#334158' },
+      },
+      crosshair: {
+        mode: CrosshairMode.Normal,
+      },
+      rightPriceScale: {
+        borderColor: '#485c7b',
+      },
+      timeScale: {
+        borderColor: '#485c7b',
+      },
+    })
+    chartRef.current = chart
+
+    const lines: { meta: CompareSeries; equity: ISeriesApi<'Line'>; drawdown: ISeriesApi<'Line'> }[] = []
+
+    for (const meta of series) {
+      const equity = chart.addSeries(LineSeries, {
+        color: meta.color,
+        lineWidth: 2,
+        lastValueVisible: false,
+        priceLineVisible: false,
+      })
+      equity.setData(meta.equity)
+
+      const drawdown = chart.addSeries(LineSeries, {
+        color: meta.color,
+        lineWidth: 1,
+        priceFormat: {
+          type: 'custom',
+          formatter: (value: number) => `${value.toFixed(1)}%`,
+        },
+        lastValueVisible: false,
+        priceLineVisible: false,
+      }, 1)
+      drawdown.setData(meta.drawdown)
+
+      lines.push({ meta, equity, drawdown })
+    }
+
+    chart.panes()[0]?.setStretchFactor(0.7)
+    chart.panes()[1]?.setStretchFactor(0.3)
+
+    chart.subscribeCrosshairMove((param) => {
+      if (!param.time) {
+        setLegend(null)
+        return
+      }
+
+      const rows = lines.map(({ meta, equity, drawdown }) => {
+        const eq = param.seriesData.get(equity)
+        const dd = param.seriesData.get(drawdown)
+        return {
+          label: meta.label,
+          color: meta.color,
+          equity: eq && 'value' in eq ? eq.value : undefined,
+          drawdown: dd && 'value' in dd ? dd.value : undefined,
+        }
+      })
+
+      setLegend({ time: param.time, rows })
+    })
+
+    chart.timeScale().fitContent()
+
+    const resizeObserver = new ResizeObserver(entries => {
+      chart.applyOptions({ width: entries[0].contentRect.width })
+    })
+    resizeObserver.observe(chartContainerRef.current)
+
+    return () => {
+      resizeObserver.disconnect()
+      chart.remove()
+      chartRef.current = null
+    }
+  }, [series, height])
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: `${height}px` }}>
+      <div ref={chartContainerRef} style={{ width: '100%', height: '100%' }} />
+
+      {legend && (
+        <div style={{
+          position: 'absolute',
+          top: '12px',
+          left: '12px',
+          backgroundColor: 'rgba(37, 50, 72, 0.9)',
+          padding: '8px 12px',
+          borderRadius: '4px',
+          fontSize: '12px',
+          fontFamily: 'monospace',
+          color: '#fff',
+          pointerEvents: 'none',
+          zIndex: 10,
+          lineHeight: '1.6'
+        }}>
+          <div style={{ marginBottom: '4px', opacity: 0.7 }}>{String(legend.time)}</div>
+          {legend.rows.map(row => (
+            <div key={row.label} style={{ color: row.color }}>
+              {row.label}: {row.equity !== undefined ? row.equity.toFixed(2) : '—'}
+              {row.drawdown !== undefined && <span style={{ opacity: 0.7 }}> ({row.drawdown.toFixed(1)}%)</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
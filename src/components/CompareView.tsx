@@ -0,0 +1,175 @@
+import { useMemo } from 'react'
+import type { Time } from 'lightweight-charts'
+import CompareChart from './CompareChart'
+import type { CompareSeries } from './CompareChart'
+import type { RunSummary, StoredRun } from '../types/history'
+import { computePerformanceMetrics, drawdownSeries } from '../utils/metrics'
+import type { PerformanceMetrics } from '../utils/metrics'
+import { buildRoundTrips } from '../utils/trades'
+import type { RoundTrip } from '../utils/trades'
+import { DEFAULT_INTERVAL, isIntraday, parseDatetime, periodsPerYear, resamplePoints } from '../utils/timeframes'
+
+export interface CompareEntry {
+  summary: RunSummary
+  stored: StoredRun
+}
+
+interface CompareViewProps {
+  entries: CompareEntry[]
+  onClose: () => void
+}
+
+const RUN_COLORS = ['#2962FF', '#ffa726', '#ab47bc', '#26a69a']
+
+// Rows of the diff table; `better` says which direction wins. Rows without one (trade count, exposure)
+// are shown for context only, since neither direction is better
+const ROWS: { label: string; value: (m: PerformanceMetrics, r: StoredRun) => number; format: (v: number) => string; better?: 'high' | 'low' }[] = [
+  { label: 'Total Return', value: (_, r) => r.response.metrics.total_return, format: v => `${v.toFixed(2)}%`, better: 'high' },
+  { label: 'CAGR', value: m => m.cagr, format: v => `${v.toFixed(2)}%`, better: 'high' },
+  { label: 'Sharpe', value: (_, r) => r.response.metrics.sharpe_ratio, format: v => v.toFixed(3), better: 'high' },
+  { label: 'Sortino', value: m => m.sortino, format: v => v.toFixed(2), better: 'high' },
+  { label: 'Volatility', value: m => m.annualVolatility, format: v => `${v.toFixed(2)}%`, better: 'low' },
+  { label: 'Max Drawdown', value: m => Math.abs(m.maxDrawdown), format: v => `-${v.toFixed(2)}%`, better: 'low' },
+  { label: 'Max DD Duration', value: m => m.maxDrawdownDuration, format: v => `${v} bars`, better: 'low' },
+  { label: 'Win Rate', value: m => m.winRate, format: v => `${v.toFixed(1)}%`, better: 'high' },
+  { label: 'Profit Factor', value: m => m.profitFactor, format: v => Number.isFinite(v) ? v.toFixed(2) : '∞', better: 'high' },
+  { label: 'Trades', value: m => m.numberOfTrades, format: v => String(v) },
+  { label: 'Exposure', value: m => m.exposure, format: v => `${v.toFixed(1)}%` },
+]
+
+const toTime = (datetime: string) => datetime.split('T')[0] as Time
+const toMs = parseDatetime
+
+export default function CompareView({ entries, onClose }: CompareViewProps) {
+  // Chart is rebuilt whenever `series` changes identity, so derive it once per selection
+  const computed = useMemo(() => entries.map((entry, i) => {
+    const { response, payload } = entry.stored
+    const equity = response.equity || []
+    const roundTrips = buildRoundTrips(response.trades || [], response.candles || [], equity, payload.initial_cash)
+
+    // Runs are overlaid on a daily axis, so intraday curves are reduced to their daily closes
+    const interval = payload.interval ?? DEFAULT_INTERVAL
+    const daily = isIntraday(interval) ? resamplePoints(equity, '1d') : equity
+    const values = daily.map(point => point.equity)
+    const base = values[0] || 1
+    const drawdowns = drawdownSeries(values)
+
+    const series: CompareSeries = {
+      id: entry.summary.id,
+      label: entry.summary.name,
+      color: RUN_COLORS[i % RUN_COLORS.length],
+      equity: daily.map((point, j) => ({ time: toTime(point.datetime), value: (values[j] / base) * 100 })),
+      drawdown: daily.map((point, j) => ({ time: toTime(point.datetime), value: drawdowns[j] })),
+    }
+
+    return {
+      entry,
+      series,
+      roundTrips,
+      metrics: computePerformanceMetrics(equity, roundTrips, periodsPerYear(interval))
+    }
+  }), [entries])
+
+  const series = useMemo(() => computed.map(c => c.series), [computed])
+
+  // Shared time span for the trade timelines
+  const starts = computed.map(c => toMs(c.entry.stored.payload.start_date))
+  const ends = computed.map(c => toMs(c.entry.stored.payload.end_date))
+  const spanStart = Math.min(...starts)
+  const spanEnd = Math.max(...ends)
+  const span = Math.max(1, spanEnd - spanStart)
+  const position = (date: string) => ((toMs(date) - spanStart) / span) * 100
+
+  const tripTitle = (trip: RoundTrip) =>
+    `${trip.entryDate} → ${trip.exitDate}: ${trip.pnlPct.toFixed(2)}%${trip.open ? ' (open)' : ''}`
+
+  return (
+    <>
+      <div className="card">
+        <div className="params-header">
+          <label className="label">Compare Runs (equity normalized to 100)</label>
+          <button className="link-btn" onClick={onClose}>Close compare</button>
+        </div>
+        <div className="chart-container">
+          <CompareChart series={series} />
+        </div>
+      </div>
+
+      <div className="card">
+        <label className="label">Metrics</label>
+        <div className="trade-list">
+          <table className="trade-table compare-table">
+            <thead>
+              <tr>
+                <th>Metric</th>
+                {computed.map(c => (
+                  <th key={c.series.id} style={{ color: c.series.color }} title={c.entry.summary.name}>
+                    {c.entry.summary.strategyName} · {c.entry.summary.symbol}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map(row => {
+                const values = computed.map(c => row.value(c.metrics, c.entry.stored))
+                const best = !row.better ? null : row.better === 'high' ? Math.max(...values) : Math.min(...values)
+                return (
+                  <tr key={row.label}>
+                    <td>{row.label}</td>
+                    {values.map((value, i) => (
+                      <td key={computed[i].series.id} className={best !== null && value === best && values.some(v => v !== best) ? 'compare-best' : ''}>
+                        {row.format(value)}
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+              <tr>
+                <td>Params</td>
+                {computed.map(c => (
+                  <td key={c.series.id}>
+                    {Object.entries(c.entry.stored.payload.strategy_params).map(([k, v]) => `${k}=${v}`).join(', ')}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td>Period</td>
+                {computed.map(c => (
+                  <td key={c.series.id}>{c.entry.summary.startDate} → {c.entry.summary.endDate}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="card">
+        <label className="label">Trade Timeline</label>
+        <div className="trade-timeline">
+          {computed.map(c => (
+            <div key={c.series.id} className="timeline-row">
+              <span className="timeline-label" style={{ color: c.series.color }}>{c.entry.summary.name}</span>
+              <div className="timeline-track">
+                {c.roundTrips.map((trip, i) => (
+                  <div
+                    key={i}
+                    className={`timeline-trade ${trip.pnl >= 0 ? 'positive' : 'negative'}`}
+                    style={{
+                      left: `${position(trip.entryDate)}%`,
+                      width: `${Math.max(0.3, position(trip.exitDate) - position(trip.entryDate))}%`
+                    }}
+                    title={tripTitle(trip)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="timeline-axis">
+            <span>{new Date(spanStart).toISOString().split('T')[0]}</span>
+            <span>{new Date(spanEnd).toISOString().split('T')[0]}</span>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
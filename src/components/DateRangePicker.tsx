@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { closureReason, formatDate, nextTradingDay, previousTradingDay } from '../utils/marketCalendar'
+import type { DateRangeErrors } from '../utils/marketCalendar'
+
+interface DateRangePickerProps {
+  startDate: string
+  endDate: string
+  maxDate: string  // Last trading day with data
+  errors: DateRangeErrors
+  barCount: number | null  // Bars the range produces at the chosen interval, once both ends are valid
+  lookback: { name: string; bars: number } | null  // Longest lookback param, for the warm-up warning
+  onChange: (startDate: string, endDate: string) => void
+}
+
+interface Preset {
+  id: string
+  label: string
+  range: (maxDate: string) => [string, string]
+}
+
+// Feb 29 rolls over to Mar 1 in a non-leap year
+function yearsBefore(date: string, years: number) {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCFullYear(d.getUTCFullYear() - years)
+  return d.toISOString().split('T')[0]
+}
+
+// Relative presets end on the latest date with data; the market episodes are fixed
+const PRESETS: Preset[] = [
+  { id: 'ytd', label: 'YTD', range: max => [`${max.slice(0, 4)}-01-01`, max] },
+  { id: '1y', label: '1Y', range: max => [yearsBefore(max, 1), max] },
+  { id: '5y', label: '5Y', range: max => [yearsBefore(max, 5), max] },
+  { id: 'covid', label: 'COVID crash', range: () => ['2020-01-02', '2020-06-30'] },
+  { id: 'bear2022', label: '2022 bear', range: () => ['2022-01-03', '2022-10-12'] },
+  { id: 'gfc', label: '2008 crisis', range: () => ['2007-10-09', '2009-03-09'] },
+]
+
+// Rendered as the two date cells of the controls grid
+export default function DateRangePicker({ startDate, endDate, maxDate, errors, barCount, lookback, onChange }: DateRangePickerProps) {
+  const [notes, setNotes] = useState<{ start?: string; end?: string }>({})
+
+  // Starts move forward to the next session and ends back to the previous one, so the range never grows
+  const snap = (date: string, direction: 'next' | 'previous') => {
+    const reason = date ? closureReason(date) : null
+    if (!reason) return { date, note: undefined }
+    const snapped = direction === 'next' ? nextTradingDay(date) : previousTradingDay(date)
+    return { date: snapped, note: `${formatDate(date)} is ${reason}, moved to ${formatDate(snapped)}` }
+  }
+
+  const changeStart = (value: string) => {
+    const { date, note } = snap(value, 'next')
+    setNotes(prev => ({ ...prev, start: note }))
+    onChange(date, endDate)
+  }
+
+  const changeEnd = (value: string) => {
+    const { date, note } = snap(value, 'previous')
+    setNotes(prev => ({ ...prev, end: note }))
+    onChange(startDate, date)
+  }
+
+  const applyPreset = (id: string) => {
+    const preset = PRESETS.find(p => p.id === id)
+    if (!preset) return
+    const [start, end] = preset.range(maxDate)
+    setNotes({})
+    onChange(nextTradingDay(start), previousTradingDay(end))
+  }
+
+  const tooShort = barCount !== null && lookback !== null && barCount <= lookback.bars
+
+  return (
+    <>
+      {/* Start Date */}
+      <div className="control-section">
+        <div className="label-row">
+          <label className="label">Start Date</label>
+          <select value="" onChange={e => applyPreset(e.target.value)} className="date-presets" title="Fill in a preset range">
+            <option value="" disabled>Presets</option>
+            {PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </div>
+        <input
+          type="date"
+          value={startDate}
+          onChange={e => changeStart(e.target.value)}
+          max={endDate || maxDate}
+          className={`input ${errors.start ? 'error' : ''}`}
+        />
+        {errors.start && <p className="error-text">{errors.start}</p>}
+        {!errors.start && notes.start && <p className="date-note">{notes.start}</p>}
+      </div>
+
+      {/* End Date */}
+      <div className="control-section">
+        <label className="label">End Date</label>
+        <input
+          type="date"
+          value={endDate}
+          onChange={e => changeEnd(e.target.value)}
+          min={startDate || undefined}
+          max={maxDate}
+          className={`input ${errors.end ? 'error' : ''}`}
+        />
+        {errors.end && <p className="error-text">{errors.end}</p>}
+        {!errors.end && notes.end && <p className="date-note">{notes.end}</p>}
+        {barCount !== null && (
+          <p className={`date-note ${tooShort ? 'warning' : ''}`}>
+            {barCount.toLocaleString()} bars
+            {tooShort && lookback && ` - ${lookback.name}=${lookback.bars} needs more than that to warm up, so no trades can happen`}
+          </p>
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,109 @@
+import { SIZING_MODES } from '../utils/execution'
+import type { CommissionType, ExecutionForm, SizingMode } from '../utils/execution'
+
+interface ExecutionPanelProps {
+  values: ExecutionForm
+  errors: Partial<Record<keyof ExecutionForm, string>>
+  onChange: (values: ExecutionForm) => void
+  onReset: () => void
+}
+
+export default function ExecutionPanel({ values, errors, onChange, onReset }: ExecutionPanelProps) {
+  const set = (patch: Partial<ExecutionForm>) => onChange({ ...values, ...patch })
+  const sizing = SIZING_MODES.find(mode => mode.id === values.sizing) ?? SIZING_MODES[0]
+
+  return (
+    <div className="params-panel">
+      <div className="params-header">
+        <label className="label">Execution</label>
+        <button className="link-btn" onClick={onReset}>Reset defaults</button>
+      </div>
+      <div className="params-grid">
+        <div className="param-field">
+          <label className="param-label" htmlFor="exec-commission">
+            commission ({values.commissionType === 'flat' ? '$ per trade' : '% of value'})
+          </label>
+          <div className="input-pair">
+            <input
+              id="exec-commission"
+              type="number"
+              min={0}
+              step={values.commissionType === 'flat' ? 0.5 : 0.01}
+              value={values.commission}
+              onChange={e => set({ commission: e.target.value })}
+              className={`input ${errors.commission ? 'error' : ''}`}
+            />
+            <select
+              value={values.commissionType}
+              onChange={e => set({ commissionType: e.target.value as CommissionType })}
+              className="input"
+              title="Commission type"
+            >
+              <option value="percent">%</option>
+              <option value="flat">$</option>
+            </select>
+          </div>
+          {errors.commission && <p className="error-text">{errors.commission}</p>}
+        </div>
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="exec-slippage">slippage (bps)</label>
+          <input
+            id="exec-slippage"
+            type="number"
+            min={0}
+            step={1}
+            value={values.slippageBps}
+            onChange={e => set({ slippageBps: e.target.value })}
+            className={`input ${errors.slippageBps ? 'error' : ''}`}
+          />
+          {errors.slippageBps && <p className="error-text">{errors.slippageBps}</p>}
+        </div>
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="exec-sizing">position sizing</label>
+          <select
+            id="exec-sizing"
+            value={values.sizing}
+            // Each mode's size means something different, so start it from a sensible value
+            onChange={e => {
+              const next = SIZING_MODES.find(mode => mode.id === e.target.value as SizingMode) ?? SIZING_MODES[0]
+              set({ sizing: next.id, size: next.defaultSize })
+            }}
+            className="input"
+          >
+            {SIZING_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+          </select>
+        </div>
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="exec-size">size ({sizing.unit})</label>
+          <input
+            id="exec-size"
+            type="number"
+            min={0}
+            step={values.sizing === 'fixed_shares' ? 1 : 0.1}
+            value={values.size}
+            onChange={e => set({ size: e.target.value })}
+            className={`input ${errors.size ? 'error' : ''}`}
+          />
+          {errors.size && <p className="error-text">{errors.size}</p>}
+        </div>
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="exec-side">positions</label>
+          <select
+            id="exec-side"
+            value={values.allowShort ? 'long_short' : 'long_only'}
+            onChange={e => set({ allowShort: e.target.value === 'long_short' })}
+            className="input"
+            title="Long/short: sell signals open a short instead of only closing the long"
+          >
+            <option value="long_only">Long only</option>
+            <option value="long_short">Long/short</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  )
+}
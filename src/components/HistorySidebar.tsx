@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import type { RunSummary } from '../types/history'
+
+interface HistorySidebarProps {
+  runs: RunSummary[]
+  activeId: string | null
+  compareIds: string[]
+  onOpen: (run: RunSummary) => void
+  onToggleCompare: (run: RunSummary) => void
+  onCompare: () => void
+  onRename: (run: RunSummary, name: string) => void
+  onTag: (run: RunSummary, tags: string[]) => void
+  onDelete: (run: RunSummary) => void
+  onClose: () => void
+}
+
+const toDateInput = (ms: number) => new Date(ms).toISOString().split('T')[0]
+
+const parseTags = (text: string) =>
+  [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))]
+
+// Compare view fits at most this many runs
+const MAX_COMPARE = 4
+
+export default function HistorySidebar({
+  runs,
+  activeId,
+  compareIds,
+  onOpen,
+  onToggleCompare,
+  onCompare,
+  onRename,
+  onTag,
+  onDelete,
+  onClose
+}: HistorySidebarProps) {
+  const [strategyFilter, setStrategyFilter] = useState('')
+  const [symbolFilter, setSymbolFilter] = useState('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [tagFilter, setTagFilter] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [editTags, setEditTags] = useState('')
+
+  const strategies = [...new Set(runs.map(run => run.strategyName))].sort()
+  const symbols = [...new Set(runs.map(run => run.symbol))].sort()
+
+  // Date filter applies to when the run was made, not the backtest period
+  const filtered = runs.filter(run => {
+    const runDate = toDateInput(run.createdAt)
+    return (!strategyFilter || run.strategyName === strategyFilter)
+      && (!symbolFilter || run.symbol === symbolFilter)
+      && (!fromDate || runDate >= fromDate)
+      && (!toDate || runDate <= toDate)
+      && (!tagFilter || run.tags.some(tag => tag.toLowerCase().includes(tagFilter.toLowerCase())))
+  })
+
+  const startEditing = (run: RunSummary) => {
+    setEditingId(run.id)
+    setEditName(run.name)
+    setEditTags(run.tags.join(', '))
+  }
+
+  const commitEdit = (run: RunSummary) => {
+    if (editName.trim() && editName.trim() !== run.name) onRename(run, editName.trim())
+    const tags = parseTags(editTags)
+    if (tags.join(',') !== run.tags.join(',')) onTag(run, tags)
+    setEditingId(null)
+  }
+
+  return (
+    <aside className="history-sidebar">
+      <div className="params-header">
+        <label className="label">Run History ({runs.length})</label>
+        <button className="link-btn" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="history-filters">
+        <select value={strategyFilter} onChange={e => setStrategyFilter(e.target.value)} className="input input-small">
+          <option value="">All strategies</option>
+          {strategies.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select value={symbolFilter} onChange={e => setSymbolFilter(e.target.value)} className="input input-small">
+          <option value="">All symbols</option>
+          {symbols.map(sym => <option key={sym} value={sym}>{sym}</option>)}
+        </select>
+        <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="input input-small" title="Run from" />
+        <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className="input input-small" title="Run to" />
+        <input type="text" value={tagFilter} onChange={e => setTagFilter(e.target.value)} placeholder="Tag" className="input input-small" />
+      </div>
+
+      <button
+        className={`run-btn compare-btn ${compareIds.length >= 2 ? 'active' : ''}`}
+        disabled={compareIds.length < 2}
+        onClick={onCompare}
+      >
+        {compareIds.length < 2 ? `Tick 2-${MAX_COMPARE} runs to compare` : `Compare ${compareIds.length} runs`}
+      </button>
+
+      <div className="history-list">
+        {filtered.length === 0 && <p className="trade-list-empty">No runs match</p>}
+
+        {filtered.map(run => (
+          <div key={run.id} className={`history-item ${activeId === run.id ? 'active' : ''}`}>
+            {editingId === run.id ? (
+              <div className="history-edit">
+                <input
+                  value={editName}
+                  onChange={e => setEditName(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && commitEdit(run)}
+                  className="input input-small"
+                  autoFocus
+                />
+                <input
+                  value={editTags}
+                  onChange={e => setEditTags(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && commitEdit(run)}
+                  placeholder="tags, comma separated"
+                  className="input input-small"
+                />
+                <div className="editor-actions">
+                  <button className="link-btn" onClick={() => commitEdit(run)}>Save</button>
+                  <button className="link-btn" onClick={() => setEditingId(null)}>Cancel</button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <button className="history-open" onClick={() => onOpen(run)}>
+                  <span className="history-name">{run.name}</span>
+                  <span className="history-meta">
+                    {new Date(run.createdAt).toLocaleString()} · {(run.durationMs / 1000).toFixed(1)}s
+                  </span>
+                  <span className="history-metrics">
+                    <span className={run.totalReturn >= 0 ? 'positive' : 'negative'}>{run.totalReturn.toFixed(2)}%</span>
+                    <span>SR {run.sharpeRatio.toFixed(2)}</span>
+                    <span className="negative">DD {run.maxDrawdown.toFixed(2)}%</span>
+                  </span>
+                </button>
+                {run.tags.length > 0 && (
+                  <div className="history-tags">
+                    {run.tags.map(tag => <span key={tag} className="history-tag">{tag}</span>)}
+                  </div>
+                )}
+                <div className="editor-actions">
+                  <label className="compare-check">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(run.id)}
+                      disabled={!compareIds.includes(run.id) && compareIds.length >= MAX_COMPARE}
+                      onChange={() => onToggleCompare(run)}
+                    />
+                    Compare
+                  </label>
+                  <button className="link-btn" onClick={() => startEditing(run)}>Rename / tag</button>
+                  <button className="link-btn" onClick={() => onDelete(run)}>Delete</button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  )
+}
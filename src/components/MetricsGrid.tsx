@@ -0,0 +1,54 @@
+import { useState } from 'react'
+import type { PerformanceMetrics } from '../utils/metrics'
+
+interface MetricsGridProps {
+  metrics: PerformanceMetrics
+}
+
+type Tone = 'positive' | 'negative' | ''
+
+const tone = (value: number): Tone => value > 0 ? 'positive' : value < 0 ? 'negative' : ''
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatRatio = (value: number) => Number.isFinite(value) ? value.toFixed(2) : '∞'
+
+export default function MetricsGrid({ metrics }: MetricsGridProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  const items: { label: string; value: string; tone?: Tone }[] = [
+    { label: 'Initial Value', value: formatMoney(metrics.initialValue) },
+    { label: 'Final Value', value: formatMoney(metrics.finalValue), tone: tone(metrics.finalValue - metrics.initialValue) },
+    { label: 'CAGR', value: `${metrics.cagr.toFixed(2)}%`, tone: tone(metrics.cagr) },
+    { label: 'Volatility (ann.)', value: `${metrics.annualVolatility.toFixed(2)}%` },
+    { label: 'Sortino Ratio', value: formatRatio(metrics.sortino) },
+    { label: 'Calmar Ratio', value: formatRatio(metrics.calmar) },
+    { label: 'Max DD Duration', value: `${metrics.maxDrawdownDuration} bars` },
+    { label: 'Trades', value: String(metrics.numberOfTrades) },
+    { label: 'Win Rate', value: `${metrics.winRate.toFixed(1)}%` },
+    { label: 'Profit Factor', value: formatRatio(metrics.profitFactor) },
+    { label: 'Avg Win', value: `${metrics.averageWin.toFixed(2)}%`, tone: tone(metrics.averageWin) },
+    { label: 'Avg Loss', value: `${metrics.averageLoss.toFixed(2)}%`, tone: tone(metrics.averageLoss) },
+    { label: 'Exposure', value: `${metrics.exposure.toFixed(1)}%` },
+  ]
+
+  return (
+    <div className="metrics-grid-wrapper">
+      <button className="metrics-toggle" onClick={() => setExpanded(!expanded)}>
+        {expanded ? 'Hide detailed metrics ▲' : 'Show detailed metrics ▼'}
+      </button>
+
+      {expanded && (
+        <div className="metrics-grid">
+          {items.map(item => (
+            <div key={item.label} className="metric metric-small">
+              <span className="metric-label">{item.label}</span>
+              <span className={`metric-value ${item.tone || ''}`}>{item.value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
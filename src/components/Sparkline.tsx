@@ -0,0 +1,33 @@
+interface SparklineProps {
+  values: number[]
+  width?: number
+  height?: number
+}
+
+// Tiny equity curve for tables - green if it ended above where it started, red otherwise
+export default function Sparkline({ values, width = 120, height = 32 }: SparklineProps) {
+  if (values.length < 2) return null
+
+  // Downsample long curves, a sparkline can't show more points than pixels anyway
+  const stride = Math.max(1, Math.floor(values.length / width))
+  const points = values.filter((_, i) => i % stride === 0)
+  const min = Math.min(...points)
+  const max = Math.max(...points)
+  const range = max - min || 1
+
+  const path = points
+    .map((value, i) => {
+      const x = (i / (points.length - 1)) * width
+      const y = height - ((value - min) / range) * (height - 2) - 1
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  const color = values[values.length - 1] >= values[0] ? '#10b981' : '#ef4444'
+
+  return (
+    <svg width={width} height={height} className="sparkline">
+      <polyline points={path} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  )
+}
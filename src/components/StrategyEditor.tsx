@@ -0,0 +1,42 @@
+import CodeEditor from './CodeEditor'
+import type { StrategySourceCheck } from '../utils/customStrategies'
+
+interface StrategyEditorProps {
+  code: string
+  check: StrategySourceCheck
+  saved: boolean  // Editing a strategy that already exists in local storage
+  saveError: string | null
+  onChange: (code: string) => void
+  onSave: () => void
+  onDelete: () => void
+}
+
+export default function StrategyEditor({ code, check, saved, saveError, onChange, onSave, onDelete }: StrategyEditorProps) {
+  const params = check.params.map(p => `${p.name}=${p.defaultValue}`).join(', ')
+
+  return (
+    <div className="strategy-editor">
+      <div className="params-header">
+        <label className="label">Custom Strategy</label>
+        <div className="editor-actions">
+          <button className="link-btn" onClick={onSave} disabled={check.errors.length > 0}>
+            {saved ? 'Save changes' : 'Save strategy'}
+          </button>
+          {saved && <button className="link-btn" onClick={onDelete}>Delete</button>}
+        </div>
+      </div>
+
+      <CodeEditor value={code} onChange={onChange} />
+
+      <div className="editor-status">
+        <span>Class: <strong>{check.className ?? '—'}</strong></span>
+        <span>Params: <strong>{params || 'none'}</strong></span>
+      </div>
+
+      {check.errors.map(err => (
+        <p key={err} className="error-text">{err}</p>
+      ))}
+      {saveError && <p className="error-text">{saveError}</p>}
+    </div>
+  )
+}
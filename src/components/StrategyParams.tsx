@@ -0,0 +1,40 @@
+import type { StrategyParam } from '../utils/strategyParams'
+
+interface StrategyParamsProps {
+  strategyName: string
+  params: StrategyParam[]
+  values: Record<string, string>
+  errors: Record<string, string>
+  onChange: (name: string, value: string) => void
+  onReset: () => void
+}
+
+export default function StrategyParams({ strategyName, params, values, errors, onChange, onReset }: StrategyParamsProps) {
+  if (params.length === 0) return null
+
+  return (
+    <div className="params-panel">
+      <div className="params-header">
+        <label className="label">{strategyName} Parameters</label>
+        <button className="link-btn" onClick={onReset}>Reset defaults</button>
+      </div>
+      <div className="params-grid">
+        {params.map(param => (
+          <div key={param.name} className="param-field">
+            <label className="param-label" htmlFor={`param-${param.name}`}>{param.name}</label>
+            <input
+              id={`param-${param.name}`}
+              type="number"
+              step={param.integer ? 1 : 0.1}
+              value={values[param.name] ?? ''}
+              onChange={e => onChange(param.name, e.target.value)}
+              placeholder={String(param.defaultValue)}
+              className={`input ${errors[param.name] ? 'error' : ''}`}
+            />
+            {errors[param.name] && <p className="error-text">{errors[param.name]}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import type { StrategyParam } from '../utils/strategyParams'
+import { MAX_SWEEP_RUNS } from '../utils/sweep'
+import type { SweepRange } from '../utils/sweep'
+
+interface SweepPanelProps {
+  strategyName: string
+  params: StrategyParam[]
+  ranges: Record<string, SweepRange>
+  runCount: number
+  concurrency: number
+  running: boolean
+  finished: number
+  total: number
+  onRangeChange: (name: string, range: SweepRange) => void
+  onConcurrencyChange: (value: number) => void
+  onCancel: () => void
+}
+
+export default function SweepPanel({
+  strategyName,
+  params,
+  ranges,
+  runCount,
+  concurrency,
+  running,
+  finished,
+  total,
+  onRangeChange,
+  onConcurrencyChange,
+  onCancel
+}: SweepPanelProps) {
+  if (params.length === 0) return null
+
+  const progress = total > 0 ? (finished / total) * 100 : 0
+
+  return (
+    <div className="params-panel">
+      <div className="params-header">
+        <label className="label">{strategyName} Sweep Ranges</label>
+        <span className={`sweep-count ${runCount > MAX_SWEEP_RUNS ? 'over' : ''}`}>
+          {runCount} runs{runCount > MAX_SWEEP_RUNS ? ` (max ${MAX_SWEEP_RUNS})` : ''}
+        </span>
+      </div>
+
+      <div className="params-grid">
+        {params.map(param => {
+          const range = ranges[param.name] ?? { min: '', max: '', step: '' }
+          return (
+            <div key={param.name} className="param-field">
+              <label className="param-label">{param.name}</label>
+              <div className="sweep-range">
+                {(['min', 'max', 'step'] as const).map(field => (
+                  <input
+                    key={field}
+                    type="number"
+                    step={param.integer ? 1 : 0.1}
+                    value={range[field]}
+                    onChange={e => onRangeChange(param.name, { ...range, [field]: e.target.value })}
+                    placeholder={field}
+                    title={field}
+                    className="input"
+                  />
+                ))}
+              </div>
+            </div>
+          )
+        })}
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="sweep-concurrency">parallel requests</label>
+          <input
+            id="sweep-concurrency"
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={e => onConcurrencyChange(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+            className="input"
+          />
+        </div>
+      </div>
+
+      {total > 0 && (
+        <div className="sweep-progress">
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${progress}%` }} />
+          </div>
+          <span>{finished} / {total}</span>
+          {running && <button className="link-btn" onClick={onCancel}>Cancel</button>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { isBetter, metricOf } from '../utils/sweep'
+import type { SweepMetric, SweepRun } from '../utils/sweep'
+
+interface SweepResultsProps {
+  runs: SweepRun[]
+  paramNames: string[]
+  onOpen: (run: SweepRun) => void
+}
+
+const METRICS: { id: SweepMetric; label: string }[] = [
+  { id: 'sharpe_ratio', label: 'Sharpe' },
+  { id: 'total_return', label: 'Total Return' },
+  { id: 'max_drawdown', label: 'Max DD' },
+]
+
+const formatMetric = (metric: SweepMetric, value: number | null) => {
+  if (value === null) return '—'
+  return metric === 'sharpe_ratio' ? value.toFixed(3) : `${value.toFixed(2)}%`
+}
+
+// Red (worst) -> green (best) on a 0..1 score
+const heatColor = (score: number) => `hsl(${Math.round(score * 120)}, 65%, ${22 + score * 18}%)`
+
+export default function SweepResults({ runs, paramNames, onOpen }: SweepResultsProps) {
+  const [metric, setMetric] = useState<SweepMetric>('sharpe_ratio')
+  const [sortKey, setSortKey] = useState<string>('sharpe_ratio')
+  const [sortDesc, setSortDesc] = useState(true)
+  const [xParam, setXParam] = useState(paramNames[0] ?? '')
+  const [yParam, setYParam] = useState(paramNames[1] ?? paramNames[0] ?? '')
+
+  // Param names change when a different strategy is swept
+  const x = paramNames.includes(xParam) ? xParam : paramNames[0]
+  const y = paramNames.includes(yParam) ? yParam : (paramNames[1] ?? paramNames[0])
+
+  const completed = runs.filter(run => run.status === 'done')
+  if (runs.length === 0) return null
+
+  // --- Sortable table ---
+  const sortValue = (run: SweepRun): number | null => {
+    if (paramNames.includes(sortKey)) return run.params[sortKey]
+    return metricOf(run, sortKey as SweepMetric)
+  }
+  // Pending and failed runs have no metric yet; they stay at the bottom whichever way it's sorted
+  const sorted = [...runs].sort((a, b) => {
+    const valueA = sortValue(a)
+    const valueB = sortValue(b)
+    if (valueA === null || valueB === null) return valueA === valueB ? 0 : valueA === null ? 1 : -1
+    return (sortDesc ? -1 : 1) * (valueA - valueB)
+  })
+
+  const toggleSort = (key: string) => {
+    if (key === sortKey) setSortDesc(!sortDesc)
+    else {
+      setSortKey(key)
+      setSortDesc(true)
+    }
+  }
+
+  const sortArrow = (key: string) => sortKey === key ? (sortDesc ? ' ▼' : ' ▲') : ''
+
+  // --- Heatmap: best run per (x, y) cell when there are more than two params ---
+  const xValues = [...new Set(completed.map(run => run.params[x]))].sort((a, b) => a - b)
+  const yValues = [...new Set(completed.map(run => run.params[y]))].sort((a, b) => b - a)
+  const cells = new Map<string, SweepRun>()
+
+  for (const run of completed) {
+    const key = `${run.params[x]}|${run.params[y]}`
+    const current = cells.get(key)
+    const value = metricOf(run, metric)
+    const currentValue = current ? metricOf(current, metric) : null
+    if (value !== null && (currentValue === null || isBetter(metric, value, currentValue))) {
+      cells.set(key, run)
+    }
+  }
+
+  const cellValues = [...cells.values()].map(run => metricOf(run, metric) ?? 0)
+  const best = cellValues.reduce((a, b) => isBetter(metric, a, b) ? a : b, cellValues[0] ?? 0)
+  const worst = cellValues.reduce((a, b) => isBetter(metric, a, b) ? b : a, cellValues[0] ?? 0)
+  const score = (value: number) => best === worst ? 1 : Math.abs(value - worst) / Math.abs(best - worst)
+
+  return (
+    <div className="sweep-results">
+      <div className="sweep-controls">
+        <label className="param-label">
+          Metric{' '}
+          <select value={metric} onChange={e => setMetric(e.target.value as SweepMetric)} className="input input-small">
+            {METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+        </label>
+        {paramNames.length > 1 && (
+          <>
+            <label className="param-label">
+              X{' '}
+              <select value={x} onChange={e => setXParam(e.target.value)} className="input input-small">
+                {paramNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <label className="param-label">
+              Y{' '}
+              <select value={y} onChange={e => setYParam(e.target.value)} className="input input-small">
+                {paramNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {completed.length > 0 && (
+        <div className="heatmap-wrapper">
+          <table className="heatmap">
+            <tbody>
+              {yValues.map(yValue => (
+                <tr key={yValue}>
+                  <th>{yValue}</th>
+                  {xValues.map(xValue => {
+                    const run = cells.get(`${xValue}|${yValue}`)
+                    const value = run ? metricOf(run, metric) : null
+                    return (
+                      <td
+                        key={xValue}
+                        onClick={() => run && onOpen(run)}
+                        style={{ background: value !== null ? heatColor(score(value)) : 'transparent' }}
+                        className={run ? 'clickable' : ''}
+                        title={run ? Object.entries(run.params).map(([k, v]) => `${k}=${v}`).join(', ') : undefined}
+                      >
+                        {formatMetric(metric, value)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+              <tr>
+                <th className="heatmap-axis">{y} / {x}</th>
+                {xValues.map(xValue => <th key={xValue}>{xValue}</th>)}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="trade-list">
+        <table className="trade-table">
+          <thead>
+            <tr>
+              {paramNames.map(name => (
+                <th key={name} onClick={() => toggleSort(name)} className="sortable">{name}{sortArrow(name)}</th>
+              ))}
+              {METRICS.map(m => (
+                <th key={m.id} onClick={() => toggleSort(m.id)} className="sortable">{m.label}{sortArrow(m.id)}</th>
+              ))}
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((run, i) => (
+              <tr key={i} onClick={() => run.response && onOpen(run)}>
+                {paramNames.map(name => <td key={name}>{run.params[name]}</td>)}
+                {METRICS.map(m => <td key={m.id}>{formatMetric(m.id, metricOf(run, m.id))}</td>)}
+                <td className={run.status === 'error' ? 'negative' : ''} title={run.error}>{run.status}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import { findSymbol, isTickerLike, searchSymbols, SYMBOL_UNIVERSE } from '../utils/symbols'
+import type { SymbolInfo } from '../utils/symbols'
+
+interface SymbolPickerProps {
+  value: string
+  disabled?: boolean
+  placeholder: string
+  favorites: string[]
+  recents: string[]
+  onSelect: (ticker: string) => void
+  onToggleFavorite: (ticker: string) => void
+}
+
+interface Option {
+  ticker: string
+  symbol?: SymbolInfo  // Missing for tickers typed in that aren't in the universe
+  group: string
+}
+
+// With no query: favorites, then recents, then everything. Otherwise the fuzzy matches, plus the query
+// itself when it looks like a ticker we don't list.
+function buildOptions(query: string, favorites: string[], recents: string[]): Option[] {
+  const q = query.trim()
+  if (q) {
+    const options: Option[] = searchSymbols(q).map(symbol => ({ ticker: symbol.ticker, symbol, group: 'Matches' }))
+    const typed = q.toUpperCase()
+    if (isTickerLike(typed) && !findSymbol(typed)) options.push({ ticker: typed, group: 'Not in the universe' })
+    return options
+  }
+
+  const toOption = (group: string) => (ticker: string): Option => ({ ticker, symbol: findSymbol(ticker), group })
+  return [
+    ...favorites.map(toOption('Favorites')),
+    ...recents.filter(t => !favorites.includes(t)).map(toOption('Recent')),
+    ...SYMBOL_UNIVERSE.map(symbol => ({ ticker: symbol.ticker, symbol, group: 'All symbols' })),
+  ]
+}
+
+export default function SymbolPicker({ value, disabled, placeholder, favorites, recents, onSelect, onToggleFavorite }: SymbolPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [highlight, setHighlight] = useState(0)
+
+  const options = open ? buildOptions(query, favorites, recents) : []
+  const current = findSymbol(value)
+
+  const close = () => {
+    setOpen(false)
+    setQuery('')
+    setHighlight(0)
+  }
+
+  const choose = (ticker: string) => {
+    onSelect(ticker)
+    close()
+  }
+
+  const handleKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      if (!open) {
+        setOpen(true)
+        return
+      }
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlight(h => Math.min(options.length - 1, Math.max(0, h + step)))
+    } else if (e.key === 'Enter' && open && options[highlight]) {
+      e.preventDefault()
+      choose(options[highlight].ticker)
+    } else if (e.key === 'Escape') {
+      close()
+    }
+  }
+
+  return (
+    <div className="symbol-picker">
+      <input
+        type="text"
+        value={open ? query : value}
+        onChange={e => {
+          setQuery(e.target.value)
+          setHighlight(0)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKey}
+        disabled={disabled}
+        placeholder={open && value ? value : placeholder}
+        className="input"
+        title={current ? `${current.name} · ${current.exchange}` : undefined}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+      />
+
+      {open && (
+        // mousedown would blur the input (and close the list) before the click lands
+        <ul className="symbol-options" role="listbox" onMouseDown={e => e.preventDefault()}>
+          {options.length === 0 && <li className="symbol-empty">No symbols match "{query.trim()}"</li>}
+          {options.map((option, i) => {
+            const favorite = favorites.includes(option.ticker)
+            return (
+              <li key={`${option.group}-${option.ticker}`} role="presentation">
+                {option.group !== options[i - 1]?.group && <div className="symbol-group">{option.group}</div>}
+                <div
+                  role="option"
+                  ref={i === highlight ? el => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                  aria-selected={i === highlight}
+                  className={`symbol-option ${i === highlight ? 'highlighted' : ''} ${option.ticker === value ? 'selected' : ''}`}
+                  onMouseEnter={() => setHighlight(i)}
+                  onClick={() => choose(option.ticker)}
+                >
+                  <span className="symbol-ticker">{option.ticker}</span>
+                  <span className="symbol-name">
+                    {option.symbol ? option.symbol.name : 'Use this ticker anyway'}
+                    {option.symbol && <small>{option.symbol.exchange} · {option.symbol.sector}</small>}
+                  </span>
+                  <button
+                    className={`symbol-star ${favorite ? 'active' : ''}`}
+                    onClick={e => {
+                      e.stopPropagation()
+                      onToggleFavorite(option.ticker)
+                    }}
+                    title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+                  >
+                    {favorite ? '★' : '☆'}
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
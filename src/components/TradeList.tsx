@@ -0,0 +1,64 @@
+import { useState } from 'react'
+import type { RoundTrip } from '../utils/trades'
+
+interface TradeListProps {
+  roundTrips: RoundTrip[]
+  onSelect?: (trip: RoundTrip) => void
+}
+
+const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const signClass = (value: number) => value >= 0 ? 'positive' : 'negative'
+
+export default function TradeList({ roundTrips, onSelect }: TradeListProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+
+  if (roundTrips.length === 0) {
+    return <p className="trade-list-empty">No completed trades in this backtest</p>
+  }
+
+  const handleClick = (trip: RoundTrip, index: number) => {
+    setSelectedIndex(index)
+    onSelect?.(trip)
+  }
+
+  return (
+    <div className="trade-list">
+      <table className="trade-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Entry</th>
+            <th>Exit</th>
+            <th>Entry Price</th>
+            <th>Exit Price</th>
+            <th>Held</th>
+            <th>P&amp;L %</th>
+            <th>P&amp;L $</th>
+            <th>Cum. P&amp;L</th>
+          </tr>
+        </thead>
+        <tbody>
+          {roundTrips.map((trip, i) => (
+            <tr
+              key={`${trip.entryDate}-${i}`}
+              onClick={() => handleClick(trip, i)}
+              className={selectedIndex === i ? 'selected' : ''}
+            >
+              <td>{i + 1}</td>
+              <td>{trip.entryDate}{trip.side === 'short' && <span className="trade-open"> (short)</span>}</td>
+              <td>{trip.exitDate}{trip.open && <span className="trade-open"> (open)</span>}</td>
+              <td>{trip.entryPrice.toFixed(2)}</td>
+              <td>{trip.exitPrice.toFixed(2)}</td>
+              <td title={`${trip.holdingBars} bars`}>{trip.holdingDays}d</td>
+              <td className={signClass(trip.pnlPct)}>{trip.pnlPct.toFixed(2)}%</td>
+              <td className={signClass(trip.pnl)}>{formatMoney(trip.pnl)}</td>
+              <td className={signClass(trip.cumulativePnl)}>{formatMoney(trip.cumulativePnl)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
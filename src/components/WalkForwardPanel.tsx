@@ -0,0 +1,125 @@
+import { MAX_WALK_FORWARD_RUNS, MAX_WALK_FORWARD_WINDOWS } from '../utils/walkForward'
+import type { WalkForwardForm, WalkForwardScheme } from '../utils/walkForward'
+import type { SweepMetric } from '../utils/sweep'
+
+interface WalkForwardPanelProps {
+  values: WalkForwardForm
+  errors: Partial<Record<keyof WalkForwardForm, string>>
+  windowCount: number
+  comboCount: number
+  running: boolean
+  finished: number
+  total: number
+  onChange: (values: WalkForwardForm) => void
+  onCancel: () => void
+}
+
+const SCHEMES: { id: WalkForwardScheme; label: string }[] = [
+  { id: 'rolling', label: 'Rolling' },
+  { id: 'anchored', label: 'Anchored' },
+]
+
+const METRICS: { id: SweepMetric; label: string }[] = [
+  { id: 'sharpe_ratio', label: 'Sharpe' },
+  { id: 'total_return', label: 'Total Return' },
+  { id: 'max_drawdown', label: 'Max DD' },
+]
+
+export default function WalkForwardPanel({
+  values,
+  errors,
+  windowCount,
+  comboCount,
+  running,
+  finished,
+  total,
+  onChange,
+  onCancel
+}: WalkForwardPanelProps) {
+  // Every combo on every in-sample window, plus one out-of-sample run per window
+  const runCount = windowCount * (comboCount + 1)
+  const over = runCount > MAX_WALK_FORWARD_RUNS
+  const progress = total > 0 ? (finished / total) * 100 : 0
+  const set = (patch: Partial<WalkForwardForm>) => onChange({ ...values, ...patch })
+
+  return (
+    <div className="params-panel">
+      <div className="params-header">
+        <label className="label">Walk-forward Windows</label>
+        <span className={`sweep-count ${over ? 'over' : ''}`}>
+          {windowCount} windows{windowCount >= MAX_WALK_FORWARD_WINDOWS ? ' (max)' : ''} × {comboCount} combos = {runCount} runs
+          {over ? ` (max ${MAX_WALK_FORWARD_RUNS})` : ''}
+        </span>
+      </div>
+
+      <div className="params-grid">
+        <div className="param-field">
+          <label className="param-label" htmlFor="wf-scheme">windows</label>
+          <select
+            id="wf-scheme"
+            value={values.scheme}
+            onChange={e => set({ scheme: e.target.value as WalkForwardScheme })}
+            className="input"
+            title="Rolling: fixed-length in-sample window that moves forward. Anchored: in-sample always starts at the start date"
+          >
+            {SCHEMES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+        </div>
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="wf-in-sample">in-sample months</label>
+          <input
+            id="wf-in-sample"
+            type="number"
+            min={1}
+            max={120}
+            value={values.inSampleMonths}
+            onChange={e => set({ inSampleMonths: e.target.value })}
+            className={`input ${errors.inSampleMonths ? 'error' : ''}`}
+          />
+          {errors.inSampleMonths && <p className="error-text">{errors.inSampleMonths}</p>}
+        </div>
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="wf-out-of-sample">out-of-sample months</label>
+          <input
+            id="wf-out-of-sample"
+            type="number"
+            min={1}
+            max={120}
+            value={values.outOfSampleMonths}
+            onChange={e => set({ outOfSampleMonths: e.target.value })}
+            className={`input ${errors.outOfSampleMonths ? 'error' : ''}`}
+          />
+          {errors.outOfSampleMonths && <p className="error-text">{errors.outOfSampleMonths}</p>}
+        </div>
+
+        <div className="param-field">
+          <label className="param-label" htmlFor="wf-metric">pick best by</label>
+          <select
+            id="wf-metric"
+            value={values.metric}
+            onChange={e => set({ metric: e.target.value as SweepMetric })}
+            className="input"
+          >
+            {METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {windowCount === 0 && Object.keys(errors).length === 0 && (
+        <p className="error-text">Pick start and end dates that cover at least one in-sample plus one out-of-sample window.</p>
+      )}
+
+      {total > 0 && (
+        <div className="sweep-progress">
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${progress}%` }} />
+          </div>
+          <span>{finished} / {total}</span>
+          {running && <button className="link-btn" onClick={onCancel}>Cancel</button>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { annualizedReturn } from '../utils/walkForward'
+import type { WalkForwardResult } from '../utils/walkForward'
+
+interface WalkForwardResultsProps {
+  results: WalkForwardResult[]
+  onFocus: (result: WalkForwardResult) => void
+}
+
+interface Row {
+  result: WalkForwardResult
+  isSharpe: number | null
+  oosSharpe: number | null
+  isReturn: number | null   // Annualized, %
+  oosReturn: number | null
+}
+
+function buildRow(result: WalkForwardResult): Row {
+  const isMetrics = result.best?.metrics
+  const oosMetrics = result.oos.response?.metrics
+  return {
+    result,
+    isSharpe: isMetrics?.sharpe_ratio ?? null,
+    oosSharpe: oosMetrics?.sharpe_ratio ?? null,
+    isReturn: isMetrics ? annualizedReturn(isMetrics.total_return, result.inSample) : null,
+    oosReturn: oosMetrics ? annualizedReturn(oosMetrics.total_return, result.outOfSample) : null
+  }
+}
+
+// How much of the in-sample return survived out of sample (walk-forward efficiency). Only meaningful
+// when the in-sample return was positive
+const efficiency = (isReturn: number | null, oosReturn: number | null) =>
+  isReturn !== null && oosReturn !== null && isReturn > 0 ? (oosReturn / isReturn) * 100 : null
+
+const mean = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v !== null)
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : null
+}
+
+const formatNumber = (value: number | null, digits: number, suffix = '') =>
+  value === null ? '—' : `${value.toFixed(digits)}${suffix}`
+
+const tone = (value: number | null) => value === null ? '' : value >= 0 ? 'positive' : 'negative'
+
+export default function WalkForwardResults({ results, onFocus }: WalkForwardResultsProps) {
+  if (results.length === 0) return null
+
+  const rows = results.map(buildRow)
+  const avg = {
+    isSharpe: mean(rows.map(row => row.isSharpe)),
+    oosSharpe: mean(rows.map(row => row.oosSharpe)),
+    isReturn: mean(rows.map(row => row.isReturn)),
+    oosReturn: mean(rows.map(row => row.oosReturn))
+  }
+
+  const statusOf = (result: WalkForwardResult) => {
+    if (result.oos.status !== 'pending') return result.oos.status === 'running' ? 'out-of-sample...' : result.oos.status
+    const done = result.trials.filter(trial => trial.status === 'done' || trial.status === 'error').length
+    return done < result.trials.length ? `in-sample ${done}/${result.trials.length}` : 'pending'
+  }
+
+  return (
+    <div className="trade-list">
+      <table className="trade-table walk-forward-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>In-sample</th>
+            <th>Out-of-sample</th>
+            <th>Chosen params</th>
+            <th>IS Sharpe</th>
+            <th>OOS Sharpe</th>
+            <th title="Annualized">IS Return</th>
+            <th title="Annualized">OOS Return</th>
+            <th title="OOS return as a share of IS return">Efficiency</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const { result } = row
+            const error = result.oos.error ?? result.trials.find(trial => trial.error)?.error
+            return (
+              <tr key={result.index} onClick={() => result.oos.response && onFocus(result)}>
+                <td>{result.index + 1}</td>
+                <td>{result.inSample.start} → {result.inSample.end}</td>
+                <td>{result.outOfSample.start} → {result.outOfSample.end}</td>
+                <td>
+                  {result.best
+                    ? Object.entries(result.best.params).map(([name, value]) => `${name}=${value}`).join(', ')
+                    : <span className={result.oos.status === 'error' ? 'negative' : ''} title={error}>{statusOf(result)}</span>}
+                </td>
+                <td>{formatNumber(row.isSharpe, 3)}</td>
+                <td className={tone(row.oosSharpe)}>{formatNumber(row.oosSharpe, 3)}</td>
+                <td>{formatNumber(row.isReturn, 2, '%')}</td>
+                <td className={tone(row.oosReturn)}>{formatNumber(row.oosReturn, 2, '%')}</td>
+                <td>{formatNumber(efficiency(row.isReturn, row.oosReturn), 0, '%')}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={4}>Average (IS vs OOS gap: {formatNumber(
+              avg.isSharpe !== null && avg.oosSharpe !== null ? avg.oosSharpe - avg.isSharpe : null, 3
+            )} Sharpe)</td>
+            <td>{formatNumber(avg.isSharpe, 3)}</td>
+            <td className={tone(avg.oosSharpe)}>{formatNumber(avg.oosSharpe, 3)}</td>
+            <td>{formatNumber(avg.isReturn, 2, '%')}</td>
+            <td className={tone(avg.oosReturn)}>{formatNumber(avg.oosReturn, 2, '%')}</td>
+            <td>{formatNumber(efficiency(avg.isReturn, avg.oosReturn), 0, '%')}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  )
+}
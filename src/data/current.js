@@ -1,2 +0,0 @@
-
-export const currentCandles = {}
@@ -1,7 +1,9 @@
+import type { BackendCandle, EquityData } from '../types/backtest'
+
 // Sample backend candle data for testing
-// This matches the format your Python backend returns
+// This matches the format your Python backend returns (for full synthetic runs, turn on mock mode - see src/mock)
 
-export const sampleBackendCandles = [
+export const sampleBackendCandles: BackendCandle[] = [
   { datetime: '2024-01-01', open: 150.0, high: 155.0, low: 149.0, close: 154.0, volume: 1000000 },
   { datetime: '2024-01-02', open: 154.0, high: 158.0, low: 153.0, close: 157.0, volume: 1500000 },
   { datetime: '2024-01-03', open: 157.0, high: 160.0, low: 156.0, close: 159.0, volume: 1200000 },
@@ -14,15 +16,15 @@ export const sampleBackendCandles = [
   { datetime: '2024-01-12', open: 167.0, high: 170.0, low: 166.0, close: 169.0, volume: 1900000 }
 ]
 
-export const sampleEquityData = [
-  { datetime: '2024-01-01', value: 10000.0 },
-  { datetime: '2024-01-02', value: 10250.5 },
-  { datetime: '2024-01-03', value: 10480.2 },
-  { datetime: '2024-01-04', value: 10650.8 },
-  { datetime: '2024-01-05', value: 10620.3 },
-  { datetime: '2024-01-08', value: 10850.1 },
-  { datetime: '2024-01-09', value: 10800.7 },
-  { datetime: '2024-01-10', value: 11020.4 },
-  { datetime: '2024-01-11', value: 11280.9 },
-  { datetime: '2024-01-12', value: 11520.5 }
+export const sampleEquityData: EquityData[] = [
+  { datetime: '2024-01-01', equity: 10000.0 },
+  { datetime: '2024-01-02', equity: 10250.5 },
+  { datetime: '2024-01-03', equity: 10480.2 },
+  { datetime: '2024-01-04', equity: 10650.8 },
+  { datetime: '2024-01-05', equity: 10620.3 },
+  { datetime: '2024-01-08', equity: 10850.1 },
+  { datetime: '2024-01-09', equity: 10800.7 },
+  { datetime: '2024-01-10', equity: 11020.4 },
+  { datetime: '2024-01-11', equity: 11280.9 },
+  { datetime: '2024-01-12', equity: 11520.5 }
 ]
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react'
+import { pingBackend } from '../api/client'
+
+// 'waking' once the warm-up ping has been pending long enough that the instance is probably cold-starting
+export type BackendStatus = 'checking' | 'waking' | 'ready' | 'unreachable'
+
+const WAKING_AFTER_MS = 3000
+
+// Pings the backend on page load so a sleeping instance starts booting while the user fills in the form
+export function useBackendStatus() {
+  const [status, setStatus] = useState<BackendStatus>('checking')
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const slowTimer = setTimeout(() => setStatus(prev => prev === 'checking' ? 'waking' : prev), WAKING_AFTER_MS)
+
+    pingBackend(controller.signal)
+      .then(() => setStatus('ready'))
+      .catch(err => {
+        if (controller.signal.aborted) return
+        console.warn('Backend warm-up ping failed:', err)
+        setStatus(prev => prev === 'ready' ? prev : 'unreachable')
+      })
+      .finally(() => clearTimeout(slowTimer))
+
+    return () => {
+      controller.abort()
+      clearTimeout(slowTimer)
+    }
+  }, [])
+
+  // Any successful backtest proves the server is up
+  const markReady = useCallback(() => setStatus('ready'), [])
+
+  return { status, markReady }
+}
@@ -0,0 +1,60 @@
+import { useRef, useState } from 'react'
+import { postBacktest } from '../api/backtest'
+import type { BacktestPayload } from '../types/backtest'
+import { runWithConcurrency } from '../utils/queue'
+import type { QueuedRun } from '../utils/queue'
+
+// Queues a batch of backtests (sweep combos, symbols...), tracking progress and supporting cancellation
+export function useBacktestQueue<R extends QueuedRun>() {
+  const [runs, setRuns] = useState<R[]>([])
+  const [running, setRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+  const generationRef = useRef(0)  // Late responses from a replaced batch must not touch the new one
+
+  const start = async (initialRuns: R[], payloadFor: (run: R) => BacktestPayload, concurrency: number) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const generation = ++generationRef.current
+
+    const updateRun = (index: number, patch: Partial<QueuedRun>) => {
+      if (generationRef.current !== generation) return
+      setRuns(prev => prev.map((run, i) => i === index ? { ...run, ...patch } : run))
+    }
+
+    setRuns(initialRuns)
+    setRunning(true)
+
+    const tasks = initialRuns.map((run, i) => async () => {
+      const payload = payloadFor(run)
+      const startedAt = Date.now()
+      updateRun(i, { status: 'running', payload })
+      try {
+        const response = await postBacktest(payload, { signal: controller.signal })
+        updateRun(i, { status: 'done', response, durationMs: Date.now() - startedAt })
+      } catch (err) {
+        // Cancelled runs go back to pending rather than showing up as failures
+        updateRun(i, controller.signal.aborted
+          ? { status: 'pending' }
+          : { status: 'error', error: err instanceof Error ? err.message : 'Failed to run backtest' })
+      }
+    })
+
+    await runWithConcurrency(tasks, concurrency, controller.signal)
+
+    if (generationRef.current === generation) {
+      setRunning(false)
+      controllerRef.current = null
+    }
+  }
+
+  const cancel = () => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setRunning(false)
+  }
+
+  const finished = runs.filter(run => run.status === 'done' || run.status === 'error').length
+
+  return { runs, running, finished, start, cancel }
+}
@@ -0,0 +1,101 @@
+import { useRef, useState } from 'react'
+import { postBacktest } from '../api/backtest'
+import type { BacktestPayload } from '../types/backtest'
+import { runWithConcurrency } from '../utils/queue'
+import type { QueuedRun } from '../utils/queue'
+import type { ParamValues } from '../utils/strategyParams'
+import type { SweepMetric } from '../utils/sweep'
+import { pickBest } from '../utils/walkForward'
+import type { DateRange, Trial, WalkForwardResult, WalkForwardWindow } from '../utils/walkForward'
+
+// Runs a walk-forward test in two passes: every combo on every in-sample window, then each window's
+// winner on its out-of-sample window. Same cancellation rules as useBacktestQueue
+export function useWalkForward() {
+  const [results, setResults] = useState<WalkForwardResult[]>([])
+  const [running, setRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+  const generationRef = useRef(0)
+
+  // Resolves with the finished windows, or null if cancelled or replaced by a newer run
+  const start = async (
+    windows: WalkForwardWindow[],
+    combos: ParamValues[],
+    payloadFor: (params: ParamValues, range: DateRange) => BacktestPayload,
+    metric: SweepMetric,
+    concurrency: number
+  ): Promise<WalkForwardResult[] | null> => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const generation = ++generationRef.current
+
+    let current: WalkForwardResult[] = windows.map(window => ({
+      ...window,
+      trials: combos.map((params): Trial => ({ params, status: 'pending' })),
+      best: null,
+      oos: { status: 'pending' }
+    }))
+    const update = (index: number, patch: (result: WalkForwardResult) => Partial<WalkForwardResult>) => {
+      if (generationRef.current !== generation) return
+      current = current.map((result, i) => i === index ? { ...result, ...patch(result) } : result)
+      setResults(current)
+    }
+    const errorOf = (err: unknown) => err instanceof Error ? err.message : 'Failed to run backtest'
+
+    setResults(current)
+    setRunning(true)
+
+    const trialTasks = windows.flatMap((window, w) => combos.map((params, c) => async () => {
+      const setTrial = (patch: Partial<Trial>) =>
+        update(w, result => ({ trials: result.trials.map((trial, i) => i === c ? { ...trial, ...patch } : trial) }))
+      setTrial({ status: 'running' })
+      try {
+        const response = await postBacktest(payloadFor(params, window.inSample), { signal: controller.signal })
+        setTrial({ status: 'done', metrics: response.metrics })
+      } catch (err) {
+        setTrial(controller.signal.aborted ? { status: 'pending' } : { status: 'error', error: errorOf(err) })
+      }
+    }))
+    await runWithConcurrency(trialTasks, concurrency, controller.signal)
+
+    if (!controller.signal.aborted) {
+      current.forEach((_, w) => update(w, result => ({ best: pickBest(result.trials, metric) })))
+
+      const oosTasks = current.map((result, w) => async () => {
+        const setOos = (patch: Partial<QueuedRun>) => update(w, result => ({ oos: { ...result.oos, ...patch } }))
+        if (!result.best) {
+          setOos({ status: 'error', error: 'No in-sample run succeeded' })
+          return
+        }
+        const payload = payloadFor(result.best.params, result.outOfSample)
+        const startedAt = Date.now()
+        setOos({ status: 'running', payload })
+        try {
+          const response = await postBacktest(payload, { signal: controller.signal })
+          setOos({ status: 'done', response, durationMs: Date.now() - startedAt })
+        } catch (err) {
+          setOos(controller.signal.aborted ? { status: 'pending' } : { status: 'error', error: errorOf(err) })
+        }
+      })
+      await runWithConcurrency(oosTasks, concurrency, controller.signal)
+    }
+
+    if (generationRef.current !== generation) return null
+    setRunning(false)
+    controllerRef.current = null
+    return controller.signal.aborted ? null : current
+  }
+
+  const cancel = () => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setRunning(false)
+  }
+
+  const total = results.reduce((sum, result) => sum + result.trials.length + 1, 0)
+  const finished = results.reduce((sum, result) =>
+    sum + result.trials.filter(trial => trial.status === 'done' || trial.status === 'error').length
+      + (result.oos.status === 'done' || result.oos.status === 'error' ? 1 : 0), 0)
+
+  return { results, running, finished, total, start, cancel }
+}
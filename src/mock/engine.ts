@@ -0,0 +1,190 @@
+import type { BackendCandle, BackendIndicators, EquityData, ExecutionSettings, TradeSignal } from '../types/backtest'
+import { DEFAULT_EXECUTION } from '../utils/execution'
+import type { ParamValues } from '../utils/strategyParams'
+
+// Minimal TypeScript port of the three built-in Backtrader strategies, for mock mode.
+// Mirrors Backtrader's defaults where they matter: signals are evaluated on the close and filled at the
+// next bar's open, one position at a time, indicators are null during warm-up. Sizing, costs and
+// shorting follow the payload's execution settings (all-in, free and long only by default).
+
+type Series = (number | null)[]
+
+export function sma(values: number[], period: number): Series {
+  let sum = 0
+  return values.map((value, i) => {
+    sum += value
+    if (i >= period) sum -= values[i - period]
+    return i >= period - 1 ? sum / period : null
+  })
+}
+
+export function bollinger(values: number[], period: number, devfactor: number) {
+  const mid = sma(values, period)
+  const top: Series = []
+  const bot: Series = []
+  mid.forEach((m, i) => {
+    if (m === null) {
+      top.push(null)
+      bot.push(null)
+      return
+    }
+    const window = values.slice(i - period + 1, i + 1)
+    const sd = Math.sqrt(window.reduce((sum, v) => sum + (v - m) ** 2, 0) / period)  // Population std dev, like Backtrader
+    top.push(m + devfactor * sd)
+    bot.push(m - devfactor * sd)
+  })
+  return { top, mid, bot }
+}
+
+// Wilder's RSI (Backtrader's default smoothing)
+export function rsi(values: number[], period: number): Series {
+  const result: Series = values.map(() => null)
+  let avgGain = 0
+  let avgLoss = 0
+
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1]
+    const gain = Math.max(change, 0)
+    const loss = Math.max(-change, 0)
+
+    if (i <= period) {
+      avgGain += gain / period
+      avgLoss += loss / period
+      if (i < period) continue
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period
+      avgLoss = (avgLoss * (period - 1) + loss) / period
+    }
+    result[i] = avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss)
+  }
+  return result
+}
+
+interface StrategyRun {
+  indicators: Record<string, Record<string, Series>>  // indicator -> line -> values per bar
+  shouldBuy: (i: number) => boolean
+  shouldSell: (i: number) => boolean
+}
+
+interface MockStrategy {
+  defaults: ParamValues
+  build: (closes: number[], params: ParamValues) => StrategyRun
+}
+
+const above = (a: number | null, b: number | null) => a !== null && b !== null && a > b
+const below = (a: number | null, b: number | null) => a !== null && b !== null && a < b
+
+export const MOCK_STRATEGIES: Record<string, MockStrategy> = {
+  SMACrossover: {
+    defaults: { fast: 10, slow: 30 },
+    build: (closes, { fast, slow }) => {
+      const fastMa = sma(closes, fast)
+      const slowMa = sma(closes, slow)
+      const crossedUp = (i: number) => i > 0 && !above(fastMa[i - 1], slowMa[i - 1]) && above(fastMa[i], slowMa[i])
+      const crossedDown = (i: number) => i > 0 && !below(fastMa[i - 1], slowMa[i - 1]) && below(fastMa[i], slowMa[i])
+      return {
+        indicators: { sma_fast: { value: fastMa }, sma_slow: { value: slowMa } },
+        shouldBuy: crossedUp,
+        shouldSell: crossedDown
+      }
+    }
+  },
+  BollingerMeanReversion: {
+    defaults: { period: 20, devfactor: 2 },
+    build: (closes, { period, devfactor }) => {
+      const bands = bollinger(closes, period, devfactor)
+      return {
+        indicators: { bollinger: bands },
+        shouldBuy: i => below(closes[i], bands.bot[i]),
+        shouldSell: i => above(closes[i], bands.top[i])
+      }
+    }
+  },
+  RSIOversold: {
+    defaults: { period: 14, oversold: 30, overbought: 70 },
+    build: (closes, { period, oversold, overbought }) => {
+      const values = rsi(closes, period)
+      return {
+        indicators: { rsi: { value: values } },
+        shouldBuy: i => below(values[i], oversold),
+        shouldSell: i => above(values[i], overbought)
+      }
+    }
+  }
+}
+
+export interface EngineResult {
+  equity: EquityData[]
+  trades: TradeSignal[]
+  indicators: BackendIndicators
+}
+
+// Run `strategy` over `candles` starting with `cash`. Shares are negative while short
+export function runEngine(
+  strategy: MockStrategy,
+  candles: BackendCandle[],
+  params: ParamValues,
+  cash: number,
+  execution: ExecutionSettings = DEFAULT_EXECUTION
+): EngineResult {
+  const closes = candles.map(c => c.close)
+  const run = strategy.build(closes, { ...strategy.defaults, ...params })
+
+  const equity: EquityData[] = []
+  const trades: TradeSignal[] = []
+  let shares = 0
+  let pending: 'long' | 'short' | 'flat' | null = null
+
+  const slippage = execution.slippage_bps / 10_000
+  const fee = (value: number) => execution.commission_type === 'flat' ? execution.commission : value * execution.commission / 100
+
+  // Buys fill above the open and sells below it; commission comes out of cash on every fill
+  const fill = (candle: BackendCandle, type: TradeSignal['type'], quantity: number) => {
+    const price = candle.open * (type === 'buy' ? 1 + slippage : 1 - slippage)
+    const value = quantity * price
+    cash += (type === 'buy' ? -value : value) - fee(value)
+    shares += type === 'buy' ? quantity : -quantity
+    trades.push({ datetime: candle.datetime, type, price })
+  }
+
+  // Whole shares the sizing asks for, capped at what the cash covers (no leverage)
+  const quantityFor = (price: number) => {
+    const wanted = execution.sizing === 'fixed_shares'
+      ? execution.size
+      : Math.floor((execution.sizing === 'fixed_cash' ? execution.size : cash * execution.size / 100) / price)
+    const flatFee = execution.commission_type === 'flat' ? execution.commission : 0
+    const pctFee = execution.commission_type === 'percent' ? execution.commission / 100 : 0
+    return Math.max(0, Math.min(wanted, Math.floor((cash - flatFee) / (price * (1 + pctFee)))))
+  }
+
+  candles.forEach((candle, i) => {
+    // Fill yesterday's order at today's open: close what's held, then open the new side
+    if (pending) {
+      if (shares > 0 && pending !== 'long') fill(candle, 'sell', shares)
+      if (shares < 0 && pending !== 'short') fill(candle, 'buy', -shares)
+      if (shares === 0 && pending !== 'flat') {
+        const quantity = quantityFor(candle.open)
+        if (quantity > 0) fill(candle, pending === 'long' ? 'buy' : 'sell', quantity)
+      }
+    }
+    pending = null
+
+    // Long only: sell signals just close the long. Long/short: they flip to (or open) a short
+    if (shares <= 0 && run.shouldBuy(i)) pending = 'long'
+    else if (shares > 0 && run.shouldSell(i)) pending = execution.allow_short ? 'short' : 'flat'
+    else if (shares === 0 && execution.allow_short && run.shouldSell(i)) pending = 'short'
+
+    equity.push({ datetime: candle.datetime, equity: Math.round((cash + shares * candle.close) * 100) / 100 })
+  })
+
+  const indicators: BackendIndicators = {}
+  for (const [name, lines] of Object.entries(run.indicators)) {
+    indicators[name] = candles.map((candle, i) => {
+      const point: BackendIndicators[string][number] = { datetime: candle.datetime }
+      for (const [line, values] of Object.entries(lines)) point[line] = values[i]
+      return point
+    })
+  }
+
+  return { equity, trades, indicators }
+}
@@ -0,0 +1,56 @@
+import type { BacktestPayload, BacktestResponse } from '../types/backtest'
+import { maxDrawdown, periodReturns, sharpeRatio } from '../utils/metrics'
+import { MOCK_STRATEGIES, runEngine } from './engine'
+import { generateCandles } from './ohlcv'
+import { DEFAULT_INTERVAL, periodsPerYear } from '../utils/timeframes'
+import { findSymbol } from '../utils/symbols'
+
+export interface MockResponse {
+  status: number
+  body: unknown
+}
+
+const error = (status: number, detail: string): MockResponse => ({ status, body: { detail } })
+
+// Stand-in for POST /backtest: synthetic candles for the symbol, the strategy run locally
+function backtest(payload: BacktestPayload): MockResponse {
+  const strategy = MOCK_STRATEGIES[payload.strategy_name]
+  if (!strategy) {
+    return error(400, `Mock backend has no engine for ${payload.strategy_name} (supports ${Object.keys(MOCK_STRATEGIES).join(', ')})`)
+  }
+  if (!(payload.initial_cash > 0)) return error(400, 'initial_cash must be positive')
+
+  const interval = payload.interval ?? DEFAULT_INTERVAL
+  // Like real data, nothing before the symbol listed
+  const listed = findSymbol(payload.data_source)?.listed
+  const start = listed && listed > payload.start_date ? listed : payload.start_date
+  const candles = generateCandles(payload.data_source, start, payload.end_date, interval)
+  if (candles.length < 2) return error(400, `No data for ${payload.data_source} between ${payload.start_date} and ${payload.end_date}`)
+
+  const { equity, trades, indicators } = runEngine(strategy, candles, payload.strategy_params, payload.initial_cash, payload.execution)
+  const values = equity.map(point => point.equity)
+  const finalValue = values[values.length - 1]
+
+  const response: BacktestResponse = {
+    success: true,
+    strategy_name: payload.strategy_name,
+    metrics: {
+      initial_value: payload.initial_cash,
+      final_value: finalValue,
+      total_return: (finalValue / payload.initial_cash - 1) * 100,
+      sharpe_ratio: sharpeRatio(periodReturns(values), periodsPerYear(interval)),
+      max_drawdown: maxDrawdown(values).maxDrawdown
+    },
+    candles,
+    equity,
+    indicators,
+    trades
+  }
+  return { status: 200, body: response }
+}
+
+// Route a request the way the real backend would
+export function handleMockRequest(path: string, body: unknown): MockResponse {
+  if (path === '/backtest') return backtest(body as BacktestPayload)
+  return error(404, `Mock backend has no route for ${path}`)
+}
@@ -0,0 +1,120 @@
+import type { BackendCandle } from '../types/backtest'
+import { INTERVALS, isIntraday, resampleCandles, SESSION_MINUTES } from '../utils/timeframes'
+import type { Interval } from '../utils/timeframes'
+
+// Synthetic OHLCV for mock mode. Each symbol gets its own seeded random walk that always starts
+// from the same anchor date, so a symbol looks the same no matter which window is requested.
+const ANCHOR_DATE = '1990-01-01'
+
+// mulberry32 - tiny seeded PRNG, plenty for fake prices
+export function createRng(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// FNV-1a, to turn a symbol into a seed
+export function hashSeed(text: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Standard normal via Box-Muller
+const gaussian = (rng: () => number) =>
+  Math.sqrt(-2 * Math.log(rng() || Number.EPSILON)) * Math.cos(2 * Math.PI * rng())
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0]
+
+// Weekdays from `start` to `end` inclusive (no holiday calendar, it's fake data)
+function* weekdays(start: string, end: string) {
+  const date = new Date(`${start}T00:00:00Z`)
+  const last = new Date(`${end}T00:00:00Z`)
+  while (date <= last) {
+    const day = date.getUTCDay()
+    if (day !== 0 && day !== 6) yield toIsoDate(date)
+    date.setUTCDate(date.getUTCDate() + 1)
+  }
+}
+
+// Session bars inside one daily candle: a random walk from its open that lands on its close (a Brownian
+// bridge), stamped in New York time (fixed -05:00, no DST - it's fake data) like an exchange feed would be
+function intradayBars(symbol: string, day: BackendCandle, minutes: number): BackendCandle[] {
+  const rng = createRng(hashSeed(`${symbol}:${day.datetime}`))
+  const count = Math.ceil(SESSION_MINUTES / minutes)
+  const stepVol = (day.high - day.low) / (2 * Math.sqrt(count))
+
+  const walk = [0]
+  for (let i = 1; i <= count; i++) walk.push(walk[i - 1] + gaussian(rng) * stepVol)
+  const path = walk.map((w, i) => day.open + (day.close - day.open) * (i / count) + w - walk[count] * (i / count))
+
+  const date = day.datetime.split('T')[0]
+  return Array.from({ length: count }, (_, i) => {
+    const open = Math.max(0.01, path[i])
+    const close = Math.max(0.01, path[i + 1])
+    const minute = 9 * 60 + 30 + i * minutes
+    const time = `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`
+    return {
+      datetime: `${date}T${time}:00-05:00`,
+      open: round(open),
+      high: round(Math.max(open, close) * (1 + Math.abs(gaussian(rng)) * 0.001)),
+      low: round(Math.min(open, close) * (1 - Math.abs(gaussian(rng)) * 0.001)),
+      close: round(close),
+      volume: Math.round((day.volume / count) * Math.exp(gaussian(rng) * 0.3))
+    }
+  })
+}
+
+// Candles for `symbol` between `startDate` and `endDate` (YYYY-MM-DD), in the backend's format.
+// Finer and coarser bars are derived from the daily walk, so every interval tells the same story.
+export function generateCandles(symbol: string, startDate: string, endDate: string, interval: Interval = '1d'): BackendCandle[] {
+  const daily = generateDailyCandles(symbol, startDate, endDate)
+  if (interval === '1w') return resampleCandles(daily, interval)
+  if (!isIntraday(interval)) return daily
+
+  const minutes = INTERVALS.find(i => i.id === interval)!.seconds / 60
+  return daily.flatMap(day => intradayBars(symbol, day, minutes))
+}
+
+function generateDailyCandles(symbol: string, startDate: string, endDate: string): BackendCandle[] {
+  const rng = createRng(hashSeed(symbol.toUpperCase()))
+
+  // Per-symbol character: drift 0-15%/yr, volatility 15-50%/yr, starting price 20-300
+  const drift = (0.15 * rng()) / 252
+  const vol = (0.15 + 0.35 * rng()) / Math.sqrt(252)
+  let close = 20 + 280 * rng()
+  const baseVolume = 1e6 + 2e7 * rng()
+
+  const candles: BackendCandle[] = []
+  for (const date of weekdays(ANCHOR_DATE, endDate)) {
+    // Regime shocks every so often keep the series from looking like pure noise
+    const shock = rng() < 0.01 ? gaussian(rng) * vol * 4 : 0
+    const open = close * (1 + gaussian(rng) * vol * 0.3)
+    close = Math.max(1, open * Math.exp(drift - vol * vol / 2 + gaussian(rng) * vol + shock))
+    const high = Math.max(open, close) * (1 + Math.abs(gaussian(rng)) * vol * 0.5)
+    const low = Math.min(open, close) * (1 - Math.abs(gaussian(rng)) * vol * 0.5)
+    const volume = Math.round(baseVolume * Math.exp(gaussian(rng) * 0.4))
+
+    if (date >= startDate) {
+      candles.push({
+        datetime: `${date}T00:00:00`,
+        open: round(open),
+        high: round(high),
+        low: round(low),
+        close: round(close),
+        volume
+      })
+    }
+  }
+  return candles
+}
@@ -0,0 +1,78 @@
+import type { Interval } from '../utils/timeframes'
+
+// Shapes returned by the backtesting backend (see CHART_DATA_FORMAT.md)
+
+// Backend candle format
+export interface BackendCandle {
+  datetime: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+// Backend equity point format
+export interface EquityData {
+  datetime: string
+  equity: number
+}
+
+// Backend indicator data point (can have different fields per indicator)
+export interface IndicatorDataPoint {
+  datetime: string
+  [key: string]: string | number | null  // Flexible for different indicator fields
+}
+
+// Backend indicators (object with indicator names as keys)
+export interface BackendIndicators {
+  [indicatorName: string]: IndicatorDataPoint[]
+}
+
+// Backend trade signal
+export interface TradeSignal {
+  datetime: string
+  type: 'buy' | 'sell'
+  price?: number
+}
+
+// Backend response
+export interface BacktestResponse {
+  success: boolean
+  metrics: {
+    final_value: number
+    initial_value: number
+    max_drawdown: number
+    sharpe_ratio: number
+    total_return: number
+  }
+  strategy_name: string
+  candles: BackendCandle[]
+  equity: EquityData[]
+  indicators?: BackendIndicators
+  trades?: TradeSignal[]
+}
+
+// Trading assumptions for a run. Left out of the payload when they're all at the defaults (no costs,
+// all-in, long only), which is what the backend assumed before they existed
+export interface ExecutionSettings {
+  commission_type: 'flat' | 'percent'
+  commission: number    // $ per trade, or % of the traded value
+  slippage_bps: number  // Fills this many basis points worse than the bar's open
+  sizing: 'fixed_cash' | 'percent_equity' | 'fixed_shares'
+  size: number          // $, % of equity or shares, depending on `sizing`
+  allow_short: boolean  // Sell signals open shorts instead of only closing longs
+}
+
+// Request body for POST /backtest
+export interface BacktestPayload {
+  strategy_code: string
+  strategy_name: string  // NEEDS TO MATCH CLASS NAME in strategy_code
+  strategy_params: Record<string, number>  // ALL need to have params field, keys match the python params tuple
+  data_source: string
+  start_date: string
+  end_date: string
+  initial_cash: number
+  interval?: Interval  // Bar size; runs saved before intervals existed are daily
+  execution?: ExecutionSettings
+}
@@ -0,0 +1,27 @@
+import type { BacktestPayload, BacktestResponse } from './backtest'
+import type { Annotation } from '../utils/annotations'
+
+// Lightweight record listed in the history sidebar (no candles, so listing stays cheap)
+export interface RunSummary {
+  id: string
+  name: string
+  tags: string[]
+  createdAt: number  // ms since epoch
+  durationMs: number
+  strategyName: string
+  symbol: string
+  startDate: string
+  endDate: string
+  initialCash: number
+  totalReturn: number
+  sharpeRatio: number
+  maxDrawdown: number
+}
+
+// Everything needed to reopen a run without calling the backend again
+export interface StoredRun {
+  id: string
+  payload: BacktestPayload
+  response: BacktestResponse
+  annotations?: Annotation[]  // Drawn on the chart after the run; missing on runs saved before drawing existed
+}
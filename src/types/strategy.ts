@@ -0,0 +1,11 @@
+import type { StrategyParam } from '../utils/strategyParams'
+
+// A Backtrader strategy the app can send to the backend
+export interface Strategy {
+  id: string
+  name: string  // MUST match the python class name (backend instantiates it by name)
+  desc: string
+  code: string
+  params: StrategyParam[]
+  custom?: boolean  // User-written, stored in localStorage
+}
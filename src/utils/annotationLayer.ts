@@ -0,0 +1,229 @@
+import type {
+  IChartApiBase,
+  IPrimitivePaneRenderer,
+  IPrimitivePaneView,
+  ISeriesApi,
+  ISeriesPrimitive,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time
+} from 'lightweight-charts'
+import type { AnnotationKind } from './annotations'
+
+// An annotation with its anchors already on the chart's time scale
+export interface DrawnAnnotation {
+  id: string
+  kind: AnnotationKind
+  points: { time: Time; price: number }[]
+  text?: string
+}
+
+interface Projected {
+  annotation: DrawnAnnotation
+  points: { x: number; y: number }[]
+}
+
+interface Box {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+const COLOR = '#4fc3f7'
+const SELECTED_COLOR = '#ffffff'
+const FILL = 'rgba(79, 195, 247, 0.12)'
+const HIT_DISTANCE = 5
+
+function distanceToSegment(x: number, y: number, a: { x: number; y: number }, b: { x: number; y: number }) {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq))
+  return Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy))
+}
+
+// Series primitive for the user's drawings (trendlines, price levels, ranges, notes), painted over the
+// series on the candle series' pane. Also knows where it drew each one, for picking them with the mouse.
+export class AnnotationLayer implements ISeriesPrimitive<Time> {
+  private annotations: DrawnAnnotation[] = []
+  private draft: DrawnAnnotation | null = null  // Being drawn: follows the mouse until the last click
+  private selectedId: string | null = null
+  private noteBoxes = new Map<string, Box>()     // Where each note's label ended up, measured while drawing
+  private chart: IChartApiBase<Time> | null = null
+  private series: ISeriesApi<SeriesType, Time> | null = null
+  private requestUpdate: (() => void) | null = null
+  private views: IPrimitivePaneView[]
+
+  constructor() {
+    this.views = [{ zOrder: () => 'top', renderer: () => this.renderer() }]
+  }
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time, SeriesType>) {
+    this.chart = chart
+    this.series = series
+    this.requestUpdate = requestUpdate
+  }
+
+  detached() {
+    this.chart = null
+    this.series = null
+    this.requestUpdate = null
+  }
+
+  setAnnotations(annotations: DrawnAnnotation[], selectedId: string | null) {
+    this.annotations = annotations
+    this.selectedId = selectedId
+    this.requestUpdate?.()
+  }
+
+  setDraft(draft: DrawnAnnotation | null) {
+    this.draft = draft
+    this.requestUpdate?.()
+  }
+
+  paneViews() {
+    return this.views
+  }
+
+  // The topmost annotation under a point (pane coordinates), if any
+  annotationAt(x: number, y: number): string | null {
+    const projected = this.project(this.annotations)
+    for (let i = projected.length - 1; i >= 0; i--) {
+      const { annotation, points } = projected[i]
+      if (this.hits(annotation, points, x, y)) return annotation.id
+    }
+    return null
+  }
+
+  private hits(annotation: DrawnAnnotation, points: { x: number; y: number }[], x: number, y: number) {
+    switch (annotation.kind) {
+      case 'trendline':
+        return distanceToSegment(x, y, points[0], points[1]) <= HIT_DISTANCE
+      case 'level':
+        return Math.abs(y - points[0].y) <= HIT_DISTANCE
+      case 'range': {
+        const [a, b] = points
+        return x >= Math.min(a.x, b.x) - HIT_DISTANCE && x <= Math.max(a.x, b.x) + HIT_DISTANCE
+          && y >= Math.min(a.y, b.y) - HIT_DISTANCE && y <= Math.max(a.y, b.y) + HIT_DISTANCE
+      }
+      case 'note': {
+        const box = this.noteBoxes.get(annotation.id)
+        return Math.hypot(x - points[0].x, y - points[0].y) <= HIT_DISTANCE
+          || (!!box && x >= box.left && x <= box.right && y >= box.top && y <= box.bottom)
+      }
+    }
+  }
+
+  // Anchors to pixels. Times snap to the bar at or after them, like TimeBands; annotations whose
+  // price is off the scale still come back (the canvas clips them)
+  private project(annotations: DrawnAnnotation[]): Projected[] {
+    const { chart, series } = this
+    if (!chart || !series) return []
+
+    const timeScale = chart.timeScale()
+    const projected: Projected[] = []
+    for (const annotation of annotations) {
+      const points: { x: number; y: number }[] = []
+      for (const { time, price } of annotation.points) {
+        const index = timeScale.timeToIndex(time, true)
+        const x = index === null ? null : timeScale.logicalToCoordinate(Number(index) as Logical)
+        const y = series.priceToCoordinate(price)
+        if (x === null || y === null) break
+        points.push({ x, y })
+      }
+      if (points.length === annotation.points.length) projected.push({ annotation, points })
+    }
+    return projected
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const shapes = this.project(this.draft ? [...this.annotations, this.draft] : this.annotations)
+    if (shapes.length === 0) {
+      this.noteBoxes.clear()
+      return null
+    }
+
+    return {
+      draw: target => {
+        target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+          this.noteBoxes.clear()
+          context.font = '12px sans-serif'
+          context.textBaseline = 'middle'
+
+          for (const { annotation, points } of shapes) {
+            const selected = annotation.id === this.selectedId
+            const color = selected ? SELECTED_COLOR : COLOR
+            context.strokeStyle = color
+            context.fillStyle = color
+            context.lineWidth = selected ? 2 : 1.5
+            context.setLineDash(annotation === this.draft ? [4, 4] : [])
+
+            switch (annotation.kind) {
+              case 'trendline': {
+                const [a, b] = points
+                context.beginPath()
+                context.moveTo(a.x, a.y)
+                context.lineTo(b.x, b.y)
+                context.stroke()
+                if (selected) {
+                  for (const point of points) {
+                    context.beginPath()
+                    context.arc(point.x, point.y, 3, 0, Math.PI * 2)
+                    context.fill()
+                  }
+                }
+                break
+              }
+
+              case 'level': {
+                const y = Math.round(points[0].y) + 0.5
+                context.setLineDash([6, 4])
+                context.beginPath()
+                context.moveTo(0, y)
+                context.lineTo(mediaSize.width, y)
+                context.stroke()
+                const label = annotation.points[0].price.toFixed(2)
+                const width = context.measureText(label).width + 8
+                context.fillRect(mediaSize.width - width - 4, y - 8, width, 16)
+                context.fillStyle = '#253248'
+                context.fillText(label, mediaSize.width - width, y)
+                break
+              }
+
+              case 'range': {
+                const [a, b] = points
+                const left = Math.min(a.x, b.x)
+                const top = Math.min(a.y, b.y)
+                context.fillStyle = FILL
+                context.fillRect(left, top, Math.abs(b.x - a.x), Math.abs(b.y - a.y))
+                context.strokeRect(left, top, Math.abs(b.x - a.x), Math.abs(b.y - a.y))
+                break
+              }
+
+              case 'note': {
+                const { x, y } = points[0]
+                const text = annotation.text || '…'
+                const width = context.measureText(text).width + 12
+                const box = { left: x + 6, top: y - 20, right: x + 6 + width, bottom: y - 2 }
+                this.noteBoxes.set(annotation.id, box)
+
+                context.beginPath()
+                context.arc(x, y, 3, 0, Math.PI * 2)
+                context.fill()
+                context.fillStyle = 'rgba(37, 50, 72, 0.9)'
+                context.fillRect(box.left, box.top, width, box.bottom - box.top)
+                context.strokeRect(box.left, box.top, width, box.bottom - box.top)
+                context.fillStyle = color
+                context.fillText(text, box.left + 6, (box.top + box.bottom) / 2)
+                break
+              }
+            }
+          }
+          context.setLineDash([])
+        })
+      }
+    }
+  }
+}
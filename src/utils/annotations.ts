@@ -0,0 +1,47 @@
+// Drawings made on the results chart. Anchored to a bar's datetime (as the backend sends it) and a price,
+// so they stay put through zoom/scroll and land on the right bars when the run is viewed resampled.
+// Saved with the run in history and in exported run files.
+export type AnnotationKind = 'trendline' | 'level' | 'range' | 'note'
+
+export interface Anchor {
+  time: string  // 'YYYY-MM-DD' or 'YYYY-MM-DDTHH:MM:SS'
+  price: number
+}
+
+export interface Annotation {
+  id: string
+  kind: AnnotationKind
+  points: Anchor[]  // Two for trendlines and ranges, one for levels and notes
+  text?: string     // Notes only
+}
+
+export const ANNOTATION_TOOLS: { kind: AnnotationKind; label: string; title: string }[] = [
+  { kind: 'trendline', label: 'Line', title: 'Trendline: click the start, then the end' },
+  { kind: 'level', label: 'Level', title: 'Horizontal price level: click a price' },
+  { kind: 'range', label: 'Box', title: 'Rectangle over a date and price range: click two corners' },
+  { kind: 'note', label: 'Note', title: 'Text note: click where it goes, then type' },
+]
+
+export const pointsFor = (kind: AnnotationKind) => kind === 'trendline' || kind === 'range' ? 2 : 1
+
+const isAnchor = (value: unknown): value is Anchor => {
+  const anchor = value as Anchor
+  return typeof anchor === 'object' && anchor !== null
+    && typeof anchor.time === 'string' && anchor.time !== ''
+    && typeof anchor.price === 'number' && Number.isFinite(anchor.price)
+}
+
+// Annotations read back from an exported file: anything malformed is dropped rather than failing the import
+export function parseAnnotations(value: unknown): Annotation[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((entry): entry is Annotation => {
+    const annotation = entry as Annotation
+    return typeof annotation === 'object' && annotation !== null
+      && typeof annotation.id === 'string'
+      && ANNOTATION_TOOLS.some(tool => tool.kind === annotation.kind)
+      && Array.isArray(annotation.points)
+      && annotation.points.length === pointsFor(annotation.kind)
+      && annotation.points.every(isAnchor)
+      && (annotation.kind !== 'note' || typeof annotation.text === 'string')
+  })
+}
@@ -0,0 +1,121 @@
+import type {
+  IChartApiBase,
+  IPrimitivePaneRenderer,
+  IPrimitivePaneView,
+  ISeriesApi,
+  ISeriesPrimitive,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time
+} from 'lightweight-charts'
+
+interface BandPoint {
+  time: Time
+  value: number
+}
+
+interface BandPair {
+  time: Time
+  upper: number
+  lower: number
+}
+
+// Pair the lines by time once, not on every frame
+function pairBand(upper: BandPoint[], lower: BandPoint[]): BandPair[] {
+  const lowerByTime = new Map(lower.map(point => [String(point.time), point.value]))
+  const pairs: BandPair[] = []
+  for (const point of upper) {
+    const lowerValue = lowerByTime.get(String(point.time))
+    if (lowerValue !== undefined) pairs.push({ time: point.time, upper: point.value, lower: lowerValue })
+  }
+  return pairs
+}
+
+// Series primitive that shades the area between two lines (e.g. Bollinger top and bot).
+// lightweight-charts has no fill-between series, so this draws the polygon itself, underneath the
+// candles. Attach it to a series on the same price scale as the band.
+export class BandFill implements ISeriesPrimitive<Time> {
+  private pairs: BandPair[]
+  private color: string
+  private chart: IChartApiBase<Time> | null = null
+  private series: ISeriesApi<SeriesType, Time> | null = null
+  private requestUpdate: (() => void) | null = null
+  private views: IPrimitivePaneView[]
+
+  constructor(upper: BandPoint[], lower: BandPoint[], color: string) {
+    this.pairs = pairBand(upper, lower)
+    this.color = color
+    this.views = [{ zOrder: () => 'bottom', renderer: () => this.renderer() }]
+  }
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time, SeriesType>) {
+    this.chart = chart
+    this.series = series
+    this.requestUpdate = requestUpdate
+  }
+
+  detached() {
+    this.chart = null
+    this.series = null
+    this.requestUpdate = null
+  }
+
+  // New band values for the same series (the chart updates data in place rather than rebuilding)
+  setData(upper: BandPoint[], lower: BandPoint[]) {
+    this.pairs = pairBand(upper, lower)
+    this.requestUpdate?.()
+  }
+
+  paneViews() {
+    return this.views
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const { chart, series } = this
+    if (!chart || !series) return null
+
+    // Only the visible stretch (plus a bar either side so the fill reaches the edges) is converted to
+    // media coordinates - years of intraday bars would otherwise be walked on every frame
+    const { pairs } = this
+    const timeScale = chart.timeScale()
+    const visible = timeScale.getVisibleLogicalRange()
+    if (!visible || pairs.length === 0) return null
+
+    const indexOf = (i: number) => timeScale.timeToIndex(pairs[i].time, true) ?? 0
+    let low = 0
+    let high = pairs.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (indexOf(mid) < visible.from - 1) low = mid + 1
+      else high = mid
+    }
+
+    const points: { x: number; top: number; bottom: number }[] = []
+    for (let i = Math.max(0, low - 1); i < pairs.length; i++) {
+      const x = timeScale.timeToCoordinate(pairs[i].time)
+      const top = series.priceToCoordinate(pairs[i].upper)
+      const bottom = series.priceToCoordinate(pairs[i].lower)
+      if (x !== null && top !== null && bottom !== null) points.push({ x, top, bottom })
+      if (indexOf(i) > visible.to + 1) break
+    }
+
+    return {
+      draw: target => {
+        if (points.length < 2) return
+        target.useBitmapCoordinateSpace(({ context, horizontalPixelRatio, verticalPixelRatio }) => {
+          context.beginPath()
+          points.forEach(({ x, top }, i) => {
+            if (i === 0) context.moveTo(x * horizontalPixelRatio, top * verticalPixelRatio)
+            else context.lineTo(x * horizontalPixelRatio, top * verticalPixelRatio)
+          })
+          for (let i = points.length - 1; i >= 0; i--) {
+            context.lineTo(points[i].x * horizontalPixelRatio, points[i].bottom * verticalPixelRatio)
+          }
+          context.closePath()
+          context.fillStyle = this.color
+          context.fill()
+        })
+      }
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import type { BackendCandle, EquityData } from '../types/backtest'
+import { maxDrawdown, sharpeRatio, TRADING_DAYS_PER_YEAR } from './metrics'
+import { barKey } from './timeframes'
+
+export interface BenchmarkComparison {
+  benchmarkReturn: number   // %
+  excessReturn: number      // Strategy total return minus benchmark total return, %
+  alpha: number             // Annualized Jensen's alpha, %
+  beta: number
+  benchmarkSharpe: number
+  benchmarkMaxDrawdown: number  // % (negative)
+}
+
+const toDate = barKey
+
+// Buy-and-hold: put the whole amount into the symbol at the first close and never trade again
+export function buildBenchmarkEquity(candles: BackendCandle[], amount: number): EquityData[] {
+  const first = candles.find(c => c.close > 0)
+  if (!first || !(amount > 0)) return []
+
+  const shares = amount / first.close
+  return candles.map(c => ({ datetime: c.datetime, equity: shares * c.close }))
+}
+
+// Bar-to-bar returns of both curves over their shared dates. A bar where either curve can't produce a return (a zero
+// previous value) is dropped from both, so the i-th returns always cover the same dates
+function pairedReturns(strategy: number[], benchmark: number[]) {
+  const strategyReturns: number[] = []
+  const benchmarkReturns: number[] = []
+  for (let i = 1; i < strategy.length; i++) {
+    if (strategy[i - 1] === 0 || benchmark[i - 1] === 0) continue
+    strategyReturns.push(strategy[i] / strategy[i - 1] - 1)
+    benchmarkReturns.push(benchmark[i] / benchmark[i - 1] - 1)
+  }
+  return { strategyReturns, benchmarkReturns }
+}
+
+// Compare the strategy against the benchmark on the dates both curves share
+export function compareToBenchmark(
+  strategy: EquityData[],
+  benchmark: EquityData[],
+  periodsPerYear = TRADING_DAYS_PER_YEAR
+): BenchmarkComparison | null {
+  const benchmarkByDate = new Map(benchmark.map(point => [toDate(point.datetime), point.equity]))
+  const strategyValues: number[] = []
+  const benchmarkValues: number[] = []
+
+  for (const point of strategy) {
+    const benchmarkValue = benchmarkByDate.get(toDate(point.datetime))
+    if (benchmarkValue === undefined) continue
+    strategyValues.push(point.equity)
+    benchmarkValues.push(benchmarkValue)
+  }
+
+  if (strategyValues.length < 2) return null
+
+  const { strategyReturns, benchmarkReturns } = pairedReturns(strategyValues, benchmarkValues)
+  const n = strategyReturns.length
+  if (n === 0) return null
+
+  const meanStrategy = strategyReturns.reduce((sum, r) => sum + r, 0) / n
+  const meanBenchmark = benchmarkReturns.reduce((sum, r) => sum + r, 0) / n
+
+  let covariance = 0
+  let variance = 0
+  for (let i = 0; i < n; i++) {
+    covariance += (strategyReturns[i] - meanStrategy) * (benchmarkReturns[i] - meanBenchmark)
+    variance += (benchmarkReturns[i] - meanBenchmark) ** 2
+  }
+
+  const beta = variance === 0 ? 0 : covariance / variance
+  const alpha = (meanStrategy - beta * meanBenchmark) * periodsPerYear * 100
+
+  const totalReturn = (values: number[]) => (values[values.length - 1] / values[0] - 1) * 100
+  const benchmarkReturn = totalReturn(benchmarkValues)
+
+  return {
+    benchmarkReturn,
+    excessReturn: totalReturn(strategyValues) - benchmarkReturn,
+    alpha,
+    beta,
+    benchmarkSharpe: sharpeRatio(benchmarkReturns, periodsPerYear),
+    benchmarkMaxDrawdown: maxDrawdown(benchmarkValues).maxDrawdown
+  }
+}
@@ -0,0 +1,98 @@
+import type { Time, UTCTimestamp } from 'lightweight-charts'
+import type { BackendCandle, BackendIndicators, EquityData, TradeSignal } from '../types/backtest'
+import { formatDatetime, parseDatetime } from './timeframes'
+
+// Frontend chart format (for lightweight-charts)
+export interface CandleData {
+  time: Time
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+export interface VolumeData {
+  time: Time
+  value: number
+  color?: string
+}
+
+export interface LineData {
+  time: Time
+  value: number
+}
+
+export interface IndicatorsData {
+  [indicatorName: string]: {
+    [lineName: string]: LineData[]
+  }
+}
+
+export interface TradeMarker {
+  time: Time
+  type: 'buy' | 'sell'
+  price?: number
+}
+
+// Daily and weekly bars are plain dates: just the date part (YYYY-MM-DD) of 'YYYY-MM-DD' or
+// 'YYYY-MM-DDTHH:MM:SS'. Intraday bars need the time of day too, as UTC seconds (timezone offsets applied)
+export const toChartTime = (datetime: string, intraday = false): Time =>
+  intraday ? Math.floor(parseDatetime(datetime) / 1000) as UTCTimestamp : datetime.split('T')[0] as Time
+
+// And back, for things picked on the chart (a bar's time as the backend would send it)
+export const fromChartTime = (time: Time): string =>
+  typeof time === 'number' ? formatDatetime(time * 1000)
+    : typeof time === 'string' ? time
+      : `${time.year}-${String(time.month).padStart(2, '0')}-${String(time.day).padStart(2, '0')}`
+
+// Convert backend candle data to frontend chart format, skipping candles with no datetime.
+// One pass for both series - on years of bars the conversions add up
+export function candlesToChartData(candles: BackendCandle[], intraday = false) {
+  const priceData: CandleData[] = []
+  const volumeData: VolumeData[] = []
+
+  for (const candle of candles) {
+    if (!candle.datetime) continue
+    const time = toChartTime(candle.datetime, intraday)
+    priceData.push({ time, open: candle.open, high: candle.high, low: candle.low, close: candle.close })
+    volumeData.push({ time, value: candle.volume })
+  }
+
+  return { priceData, volumeData }
+}
+
+// Convert backend equity data to frontend chart format
+export const equityToChartData = (equity: EquityData[], intraday = false): LineData[] =>
+  equity
+    .filter(point => point.datetime)
+    .map(point => ({ time: toChartTime(point.datetime, intraday), value: point.equity }))
+
+// Convert backend indicators to frontend chart format: one line per field (excluding datetime),
+// with the warm-up nulls dropped
+export function indicatorsToChartData(indicators: BackendIndicators, intraday = false): IndicatorsData {
+  const result: IndicatorsData = {}
+
+  for (const [indicatorName, dataPoints] of Object.entries(indicators)) {
+    result[indicatorName] = {}
+
+    const samplePoint = dataPoints.find(p => p.datetime)
+    if (!samplePoint) continue
+
+    const fields = Object.keys(samplePoint).filter(key => key !== 'datetime')
+    for (const field of fields) {
+      result[indicatorName][field] = dataPoints
+        .filter(point => point.datetime && point[field] !== null)
+        .map(point => ({ time: toChartTime(point.datetime, intraday), value: point[field] as number }))
+    }
+  }
+
+  return result
+}
+
+// Convert backend trades to frontend chart markers
+export const tradesToMarkers = (trades: TradeSignal[], intraday = false): TradeMarker[] =>
+  trades.map(trade => ({
+    time: toChartTime(trade.datetime, intraday),
+    type: trade.type,
+    price: trade.price
+  }))
@@ -0,0 +1,31 @@
+// Per-series chart preferences picked in the legend, keyed by series ('price', 'volume', 'equity',
+// 'benchmark', 'drawdown' or 'indicator.line'). Unset fields fall back to the chart defaults.
+export interface SeriesStyle {
+  visible?: boolean
+  color?: string
+  lineWidth?: number
+}
+
+export type SeriesStyles = Record<string, SeriesStyle>
+
+// Stored per strategy name, since each strategy has its own indicator lines
+const STORAGE_KEY = 'backtest.chartStyles'
+
+export function loadChartStyles(): Record<string, SeriesStyles> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) as Record<string, SeriesStyles> : {}
+  } catch (err) {
+    console.error('Failed to load chart styles:', err)
+    return {}
+  }
+}
+
+// A full or disabled storage only costs persistence: the styles stay applied for this session
+export function saveChartStyles(styles: Record<string, SeriesStyles>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(styles))
+  } catch (err) {
+    console.error('Failed to save chart styles:', err)
+  }
+}
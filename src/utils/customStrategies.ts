@@ -0,0 +1,66 @@
+import type { Strategy } from '../types/strategy'
+import { parseStrategyParams } from './strategyParams'
+import type { StrategyParam } from './strategyParams'
+
+const STORAGE_KEY = 'backtest.customStrategies'
+
+export interface StrategySourceCheck {
+  className: string | null
+  params: StrategyParam[]
+  errors: string[]
+}
+
+// Client-side sanity check before sending user code to the backend
+// Not a python parser - just catches the mistakes that make the backend fail with an unhelpful error.
+export function checkStrategySource(source: string): StrategySourceCheck {
+  const errors: string[] = []
+
+  // Accept `bt.Strategy` and `backtrader.Strategy`, whatever the import alias
+  const classPattern = /^class\s+([A-Za-z_]\w*)\s*\(\s*(?:bt|backtrader)\.Strategy\s*\)\s*:/gm
+  const classNames = [...source.matchAll(classPattern)].map(match => match[1])
+
+  if (classNames.length === 0) {
+    errors.push('No class deriving from bt.Strategy found (e.g. `class MyStrategy(bt.Strategy):`)')
+  } else if (classNames.length > 1) {
+    errors.push(`Only one strategy class per file is supported (found ${classNames.join(', ')})`)
+  }
+
+  if (/\bbt\.Strategy\b/.test(source) && !/^import\s+backtrader\s+as\s+bt\b/m.test(source)) {
+    errors.push('Missing `import backtrader as bt`')
+  }
+
+  if (!/^\s+def\s+next\s*\(\s*self\s*\)\s*:/m.test(source)) {
+    errors.push('Strategy needs a `def next(self):` method')
+  }
+
+  if (/^\t/m.test(source) && /^ {2,}/m.test(source)) {
+    errors.push('Mixed tabs and spaces in indentation')
+  }
+
+  return {
+    className: classNames[0] ?? null,
+    params: parseStrategyParams(source),
+    errors
+  }
+}
+
+export function loadCustomStrategies(): Strategy[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) as Strategy[] : []
+  } catch (err) {
+    console.error('Failed to load custom strategies:', err)
+    return []
+  }
+}
+
+// Storage can be full or disabled: returns a message for the editor when the write fails, null otherwise
+export function saveCustomStrategies(strategies: Strategy[]): string | null {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(strategies))
+    return null
+  } catch (err) {
+    console.error('Failed to save custom strategies:', err)
+    return 'Could not save to browser storage, so this change will be lost on reload'
+  }
+}
@@ -0,0 +1,90 @@
+import type { ExecutionSettings } from '../types/backtest'
+
+export type CommissionType = ExecutionSettings['commission_type']
+export type SizingMode = ExecutionSettings['sizing']
+
+// What the backend assumed before execution settings existed: free, frictionless, all-in, long only
+export const DEFAULT_EXECUTION: ExecutionSettings = {
+  commission_type: 'percent',
+  commission: 0,
+  slippage_bps: 0,
+  sizing: 'percent_equity',
+  size: 100,
+  allow_short: false
+}
+
+export const SIZING_MODES: { id: SizingMode; label: string; unit: string; defaultSize: string }[] = [
+  { id: 'percent_equity', label: '% of equity', unit: '%', defaultSize: '100' },
+  { id: 'fixed_cash', label: 'Fixed $', unit: '$', defaultSize: '10000' },
+  { id: 'fixed_shares', label: 'Fixed shares', unit: 'shares', defaultSize: '100' },
+]
+
+// Form state: numbers as typed, like the params form
+export interface ExecutionForm {
+  commissionType: CommissionType
+  commission: string
+  slippageBps: string
+  sizing: SizingMode
+  size: string
+  allowShort: boolean
+}
+
+export function executionToForm(settings: ExecutionSettings = DEFAULT_EXECUTION): ExecutionForm {
+  return {
+    commissionType: settings.commission_type,
+    commission: String(settings.commission),
+    slippageBps: String(settings.slippage_bps),
+    sizing: settings.sizing,
+    size: String(settings.size),
+    allowShort: settings.allow_short
+  }
+}
+
+export const DEFAULT_EXECUTION_FORM = executionToForm()
+
+// Errors keyed by form field
+export function validateExecution(form: ExecutionForm): Partial<Record<keyof ExecutionForm, string>> {
+  const errors: Partial<Record<keyof ExecutionForm, string>> = {}
+  const number = (text: string) => text.trim() === '' ? NaN : Number(text)
+
+  const commission = number(form.commission)
+  if (!Number.isFinite(commission) || commission < 0) errors.commission = 'Must be 0 or more'
+  else if (form.commissionType === 'percent' && commission >= 100) errors.commission = 'Must be under 100%'
+
+  const slippage = number(form.slippageBps)
+  if (!Number.isFinite(slippage) || slippage < 0) errors.slippageBps = 'Must be 0 or more'
+  else if (slippage >= 10_000) errors.slippageBps = 'Must be under 10,000 bps'
+
+  const size = number(form.size)
+  if (!Number.isFinite(size) || size <= 0) errors.size = 'Must be more than 0'
+  else if (form.sizing === 'percent_equity' && size > 100) errors.size = 'At most 100% (no leverage)'
+  else if (form.sizing === 'fixed_shares' && !Number.isInteger(size)) errors.size = 'Must be a whole number'
+
+  return errors
+}
+
+// Only call with a form that passed validation
+export const toExecutionSettings = (form: ExecutionForm): ExecutionSettings => ({
+  commission_type: form.commissionType,
+  commission: Number(form.commission),
+  slippage_bps: Number(form.slippageBps),
+  sizing: form.sizing,
+  size: Number(form.size),
+  allow_short: form.allowShort
+})
+
+export const isDefaultExecution = (settings: ExecutionSettings) =>
+  (Object.keys(DEFAULT_EXECUTION) as (keyof ExecutionSettings)[]).every(key => settings[key] === DEFAULT_EXECUTION[key])
+
+// Human-readable lines for the results summary
+export function describeExecution(settings: ExecutionSettings = DEFAULT_EXECUTION): string[] {
+  const size = settings.sizing === 'fixed_cash'
+    ? `$${settings.size}`
+    : settings.sizing === 'percent_equity' ? `${settings.size}% of equity` : `${settings.size} shares`
+  return [
+    `Commission: ${settings.commission_type === 'flat' ? `$${settings.commission} per trade` : `${settings.commission}% of trade value`}`,
+    `Slippage: ${settings.slippage_bps} bps`,
+    `Position Size: ${size}`,
+    `Positions: ${settings.allow_short ? 'Long/short' : 'Long only'}`
+  ]
+}
@@ -0,0 +1,135 @@
+import type { BackendCandle, BackendIndicators, BacktestPayload, BacktestResponse, EquityData } from '../types/backtest'
+import { parseBacktestPayload, parseBacktestResponse } from '../api/schema'
+import { drawdownSeries } from './metrics'
+import { parseAnnotations } from './annotations'
+import type { Annotation } from './annotations'
+import type { RoundTrip } from './trades'
+
+type Cell = string | number | boolean | null | undefined
+
+// RFC 4180-ish: quote anything with a comma, quote or newline
+const csvCell = (value: Cell) => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (header: string[], rows: Cell[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n'
+
+// OHLCV with one column per indicator line (`rsi.value`, `bollinger.top`...), joined on datetime
+export function candlesCsv(candles: BackendCandle[], indicators: BackendIndicators = {}): string {
+  const columns: string[] = []
+  const byDatetime = new Map<string, Record<string, Cell>>()
+
+  for (const [name, points] of Object.entries(indicators)) {
+    for (const point of points) {
+      const row = byDatetime.get(point.datetime) ?? {}
+      for (const [line, value] of Object.entries(point)) {
+        if (line === 'datetime') continue
+        const column = `${name}.${line}`
+        if (!columns.includes(column)) columns.push(column)
+        row[column] = value
+      }
+      byDatetime.set(point.datetime, row)
+    }
+  }
+
+  return toCsv(
+    ['datetime', 'open', 'high', 'low', 'close', 'volume', ...columns],
+    candles.map(c => {
+      const row = byDatetime.get(c.datetime) ?? {}
+      return [c.datetime, c.open, c.high, c.low, c.close, c.volume, ...columns.map(column => row[column])]
+    })
+  )
+}
+
+// Equity curve plus % below the running peak
+export function equityCsv(equity: EquityData[]): string {
+  const drawdowns = drawdownSeries(equity.map(point => point.equity))
+  return toCsv(
+    ['datetime', 'equity', 'drawdown_pct'],
+    equity.map((point, i) => [point.datetime, point.equity, drawdowns[i].toFixed(4)])
+  )
+}
+
+export function roundTripsCsv(roundTrips: RoundTrip[]): string {
+  return toCsv(
+    ['entry_date', 'exit_date', 'entry_price', 'exit_price', 'holding_days', 'holding_bars', 'pnl_pct', 'pnl', 'cumulative_pnl', 'open', 'side'],
+    roundTrips.map(trip => [
+      trip.entryDate,
+      trip.exitDate,
+      trip.entryPrice,
+      trip.exitPrice,
+      trip.holdingDays,
+      trip.holdingBars,
+      trip.pnlPct.toFixed(4),
+      trip.pnl.toFixed(2),
+      trip.cumulativePnl.toFixed(2),
+      trip.open,
+      trip.side
+    ])
+  )
+}
+
+// The whole run in one file; `format`/`version` let the importer reject anything else
+const RUN_FILE_FORMAT = 'backtest-run'
+const RUN_FILE_VERSION = 1
+
+export interface RunFile {
+  payload: BacktestPayload
+  response: BacktestResponse
+  annotations: Annotation[]  // Optional in the file, so older exports still import
+}
+
+export function runToJson(payload: BacktestPayload, response: BacktestResponse, annotations: Annotation[] = []): string {
+  return JSON.stringify({
+    format: RUN_FILE_FORMAT,
+    version: RUN_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    payload,
+    response,
+    ...(annotations.length > 0 && { annotations })
+  }, null, 2)
+}
+
+// Read an exported run back in, validating both halves (throws ResponseValidationError with field paths)
+export function parseRunJson(text: string): RunFile {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('Not a JSON file')
+  }
+
+  const file = json as { format?: unknown; version?: unknown; payload?: unknown; response?: unknown; annotations?: unknown }
+  if (typeof json !== 'object' || json === null || file.format !== RUN_FILE_FORMAT) {
+    throw new Error('Not an exported backtest run (missing "format": "backtest-run")')
+  }
+  if (typeof file.version !== 'number' || file.version > RUN_FILE_VERSION) {
+    throw new Error(`Unsupported run file version ${String(file.version)}`)
+  }
+
+  return {
+    payload: parseBacktestPayload(file.payload),
+    response: parseBacktestResponse(file.response),
+    annotations: parseAnnotations(file.annotations)
+  }
+}
+
+// e.g. SMACrossover_AAPL_2020-01-01_2024-12-31_candles.csv
+export const exportFileName = (payload: BacktestPayload, suffix: string, extension: string) =>
+  `${payload.strategy_name}_${payload.data_source}_${payload.start_date}_${payload.end_date}_${suffix}.${extension}`
+    .replace(/[^\w.-]+/g, '_')
+
+// Save through a temporary <a download> link
+export function downloadFile(fileName: string, content: string | Blob, type = 'text/plain') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,176 @@
+import type { BacktestPayload, BacktestResponse } from '../types/backtest'
+import type { RunSummary, StoredRun } from '../types/history'
+import type { Annotation } from './annotations'
+
+// Run history lives in IndexedDB: it survives reloads, works offline and holds far more than localStorage.
+// Summaries and full results are split into two stores so the sidebar never loads candle arrays.
+const DB_NAME = 'backtesting-interface'
+const DB_VERSION = 1
+const SUMMARIES = 'runSummaries'
+const RESULTS = 'runResults'
+
+const MAX_RUNS = 200          // Hard cap regardless of quota
+const QUOTA_HIGH_WATER = 0.8  // Start pruning above 80% of the storage quota...
+const QUOTA_TARGET = 0.6      // ...and prune down to roughly 60%
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SUMMARIES)) {
+          db.createObjectStore(SUMMARIES, { keyPath: 'id' }).createIndex('createdAt', 'createdAt')
+        }
+        if (!db.objectStoreNames.contains(RESULTS)) {
+          db.createObjectStore(RESULTS, { keyPath: 'id' })
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve()
+  tx.onerror = () => reject(tx.error)
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'))
+})
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+
+export function defaultRunName(payload: BacktestPayload) {
+  return `${payload.strategy_name} · ${payload.data_source} · ${payload.start_date} → ${payload.end_date}`
+}
+
+function buildSummary(id: string, payload: BacktestPayload, response: BacktestResponse, durationMs: number): RunSummary {
+  return {
+    id,
+    name: defaultRunName(payload),
+    tags: [],
+    createdAt: Date.now(),
+    durationMs,
+    strategyName: payload.strategy_name,
+    symbol: payload.data_source,
+    startDate: payload.start_date,
+    endDate: payload.end_date,
+    initialCash: payload.initial_cash,
+    totalReturn: response.metrics.total_return,
+    sharpeRatio: response.metrics.sharpe_ratio,
+    maxDrawdown: response.metrics.max_drawdown
+  }
+}
+
+async function writeRun(summary: RunSummary, stored: StoredRun) {
+  const db = await openDb()
+  const tx = db.transaction([SUMMARIES, RESULTS], 'readwrite')
+  tx.objectStore(SUMMARIES).put(summary)
+  tx.objectStore(RESULTS).put(stored)
+  await transactionDone(tx)
+}
+
+// Persist a finished run. If the quota is hit, prune the oldest runs and try once more.
+export async function saveRun(payload: BacktestPayload, response: BacktestResponse, durationMs: number): Promise<RunSummary> {
+  const id = crypto.randomUUID()
+  const summary = buildSummary(id, payload, response, durationMs)
+  const stored: StoredRun = { id, payload, response }
+
+  try {
+    await writeRun(summary, stored)
+  } catch (err) {
+    if (!isQuotaError(err)) throw err
+    await pruneHistory(true)
+    await writeRun(summary, stored)
+  }
+
+  pruneHistory().catch(err => console.error('History prune failed:', err))
+  return summary
+}
+
+// Newest first
+export async function listRuns(): Promise<RunSummary[]> {
+  const db = await openDb()
+  const summaries = await promisify(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll() as IDBRequest<RunSummary[]>)
+  return summaries.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function loadRun(id: string): Promise<StoredRun | undefined> {
+  const db = await openDb()
+  return promisify(db.transaction(RESULTS).objectStore(RESULTS).get(id) as IDBRequest<StoredRun | undefined>)
+}
+
+// Rename / retag
+export async function updateRun(id: string, patch: Partial<Pick<RunSummary, 'name' | 'tags'>>): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(SUMMARIES, 'readwrite')
+  const store = tx.objectStore(SUMMARIES)
+  const existing = await promisify(store.get(id) as IDBRequest<RunSummary | undefined>)
+  if (existing) store.put({ ...existing, ...patch })
+  await transactionDone(tx)
+}
+
+// Chart drawings live with the full results, replaced wholesale on every edit
+export async function saveAnnotations(id: string, annotations: Annotation[]): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(RESULTS, 'readwrite')
+  const store = tx.objectStore(RESULTS)
+  const existing = await promisify(store.get(id) as IDBRequest<StoredRun | undefined>)
+  if (existing) store.put({ ...existing, annotations })
+  await transactionDone(tx)
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([SUMMARIES, RESULTS], 'readwrite')
+  tx.objectStore(SUMMARIES).delete(id)
+  tx.objectStore(RESULTS).delete(id)
+  await transactionDone(tx)
+}
+
+// Drop the oldest runs when over MAX_RUNS or when storage is running low.
+// Tagged runs are treated as "keep" and only go once every untagged run is gone.
+export async function pruneHistory(force = false): Promise<number> {
+  const runs = await listRuns()
+  let excess = Math.max(0, runs.length - MAX_RUNS)
+
+  if (navigator.storage?.estimate) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    const ratio = quota > 0 ? usage / quota : 0
+    if (force || ratio > QUOTA_HIGH_WATER) {
+      // Assume runs are roughly the same size and drop enough to get back to the target
+      const share = force ? 0.25 : 1 - QUOTA_TARGET / ratio
+      excess = Math.max(excess, Math.ceil(runs.length * share))
+    }
+  } else if (force) {
+    excess = Math.max(excess, Math.ceil(runs.length * 0.25))
+  }
+
+  if (excess === 0) return 0
+
+  const oldestFirst = [...runs].reverse()
+  const victims = [
+    ...oldestFirst.filter(run => run.tags.length === 0),
+    ...oldestFirst.filter(run => run.tags.length > 0)
+  ].slice(0, excess)
+
+  for (const run of victims) {
+    await deleteRun(run.id)
+  }
+
+  return victims.length
+}
@@ -0,0 +1,102 @@
+// Decides where each indicator is drawn. Moving averages and bands live in price units and overlay the
+// candles; oscillators (RSI 0-100, MACD around 0...) would flatten the price axis, so they get their own pane.
+// A name hint wins; unknown indicators fall back to comparing their value range with the price range.
+
+export interface ReferenceLine {
+  value: number
+  label: string
+}
+
+export interface IndicatorLayout {
+  placement: 'overlay' | 'pane'
+  range?: { min: number; max: number }     // Fixed scale for bounded oscillators
+  referenceLines: ReferenceLine[]         // Horizontal guides in the indicator's pane
+  band?: { upper: string; lower: string }  // Line names to shade between
+}
+
+interface IndicatorHint {
+  match: RegExp
+  placement: IndicatorLayout['placement']
+  range?: { min: number; max: number }
+  defaultLevels?: ReferenceLine[]  // Used when the strategy params don't provide thresholds
+  levelParams?: RegExp            // Strategy params that are this indicator's levels
+  band?: { upper: string; lower: string }
+}
+
+// Matched against the indicator name as the backend sends it (`rsi`, `sma_fast`, `bollinger`...)
+const INDICATOR_HINTS: IndicatorHint[] = [
+  {
+    match: /^rsi/i,
+    placement: 'pane',
+    range: { min: 0, max: 100 },
+    defaultLevels: [{ value: 30, label: 'oversold' }, { value: 70, label: 'overbought' }],
+    levelParams: /^(oversold|overbought)$/i
+  },
+  { match: /^(stoch|williams|mfi)/i, placement: 'pane', range: { min: 0, max: 100 } },
+  { match: /^(macd|cci|adx|atr|roc|momentum|obv)/i, placement: 'pane' },
+  { match: /^(bollinger|bbands|bb)(_|$)/i, placement: 'overlay', band: { upper: 'top', lower: 'bot' } },
+  { match: /^(sma|ema|wma|dema|tema|kama|vwap|ma)(_|$)/i, placement: 'overlay' },
+]
+
+// Strategy params that read as levels on an oscillator. One only becomes a guide on the indicator it
+// belongs to: through the hint (RSIOversold's oversold/overbought are RSI levels) or by carrying the
+// indicator's name, e.g. `cci_upper` for a `cci` indicator
+const LEVEL_PARAM = /oversold|overbought|threshold|upper|lower|level/i
+
+function isLevelOf(param: string, name: string, hint: IndicatorHint | undefined) {
+  if (!LEVEL_PARAM.test(param)) return false
+  if (hint?.levelParams?.test(param)) return true
+  const prefix = name.toLowerCase().split('_')[0]
+  return param.toLowerCase().startsWith(`${prefix}_`)
+}
+
+interface ValueRange {
+  min: number
+  max: number
+}
+
+function rangeOf(values: number[]): ValueRange | null {
+  if (values.length === 0) return null
+  let min = Infinity
+  let max = -Infinity
+  for (const value of values) {
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  return { min, max }
+}
+
+// Values that don't come anywhere near the price range would squash the candles if overlaid
+const fitsPriceScale = (indicator: ValueRange, price: ValueRange) =>
+  indicator.min >= price.min * 0.5 && indicator.max <= price.max * 1.5
+
+export function layoutIndicator(
+  name: string,
+  lines: Record<string, { value: number }[]>,
+  priceRange: ValueRange | null,
+  strategyParams: Record<string, number> = {}
+): IndicatorLayout {
+  const hint = INDICATOR_HINTS.find(h => h.match.test(name))
+  const values = rangeOf(Object.values(lines).flatMap(line => line.map(point => point.value)))
+
+  const placement = hint?.placement
+    ?? (values && priceRange && !fitsPriceScale(values, priceRange) ? 'pane' : 'overlay')
+
+  const lineNames = Object.keys(lines)
+  const band = hint?.band && lineNames.includes(hint.band.upper) && lineNames.includes(hint.band.lower) ? hint.band : undefined
+
+  if (placement === 'overlay') return { placement, referenceLines: [], band }
+
+  // This indicator's thresholds from the params, as long as they land inside the pane's scale
+  const scale = hint?.range ?? values
+  const fromParams = Object.entries(strategyParams)
+    .filter(([param, value]) => isLevelOf(param, name, hint) && (!scale || (value >= scale.min && value <= scale.max)))
+    .map(([param, value]) => ({ value, label: param }))
+
+  return {
+    placement,
+    range: hint?.range,
+    referenceLines: fromParams.length > 0 ? fromParams : hint?.defaultLevels ?? [],
+    band
+  }
+}
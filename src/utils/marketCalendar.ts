@@ -0,0 +1,164 @@
+import type { Interval } from './timeframes'
+import { INTERVALS, maxRangeDays, periodsPerYear } from './timeframes'
+
+// NYSE trading calendar: weekends, the regular holidays (from their rules, so any year works) and the
+// one-off closures. Early closes still count as trading days. Dates are 'YYYY-MM-DD' strings.
+
+const DAY_MS = 86_400_000
+
+const toDate = (ms: number) => new Date(ms).toISOString().split('T')[0]
+const parseDate = (date: string) => Date.parse(`${date}T00:00:00Z`)
+const addDays = (date: string, days: number) => toDate(parseDate(date) + days * DAY_MS)
+const weekday = (date: string) => new Date(parseDate(date)).getUTCDay()
+
+// A real 'YYYY-MM-DD' day: rejects '2020-13-01', and '2020-02-30' (which Date would roll into March)
+export const isCalendarDate = (date: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) && Number.isFinite(parseDate(date)) && toDate(parseDate(date)) === date
+
+// nth (1-based) given weekday of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, day: number, n: number): string {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month + 1, 0))
+    return toDate(last.getTime() - ((last.getUTCDay() - day + 7) % 7) * DAY_MS)
+  }
+  const first = new Date(Date.UTC(year, month, 1))
+  return toDate(first.getTime() + (((day - first.getUTCDay() + 7) % 7) + (n - 1) * 7) * DAY_MS)
+}
+
+// Anonymous Gregorian algorithm
+function easter(year: number): string {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return toDate(Date.UTC(year, month - 1, day))
+}
+
+// Fixed-date holidays move to Friday when they fall on a Saturday and Monday when on a Sunday
+function observed(date: string): string {
+  const day = weekday(date)
+  return day === 6 ? addDays(date, -1) : day === 0 ? addDays(date, 1) : date
+}
+
+// Unscheduled closures (weather, national days of mourning, 9/11)
+const SPECIAL_CLOSURES: Record<string, string> = {
+  '2001-09-11': 'September 11 attacks',
+  '2001-09-12': 'September 11 attacks',
+  '2001-09-13': 'September 11 attacks',
+  '2001-09-14': 'September 11 attacks',
+  '2004-06-11': 'National Day of Mourning for Ronald Reagan',
+  '2007-01-02': 'National Day of Mourning for Gerald Ford',
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'National Day of Mourning for George H.W. Bush',
+  '2025-01-09': 'National Day of Mourning for Jimmy Carter',
+}
+
+const holidaysByYear = new Map<number, Map<string, string>>()
+
+function holidays(year: number): Map<string, string> {
+  let result = holidaysByYear.get(year)
+  if (result) return result
+
+  result = new Map()
+  // New Year's Day on a Saturday isn't made up on the Friday before (that's the previous year's books)
+  const newYear = `${year}-01-01`
+  if (weekday(newYear) !== 6) result.set(observed(newYear), "New Year's Day")
+  if (year >= 1998) result.set(nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day')
+  result.set(nthWeekday(year, 1, 1, 3), "Washington's Birthday")
+  result.set(addDays(easter(year), -2), 'Good Friday')
+  result.set(nthWeekday(year, 4, 1, -1), 'Memorial Day')
+  if (year >= 2022) result.set(observed(`${year}-06-19`), 'Juneteenth')
+  result.set(observed(`${year}-07-04`), 'Independence Day')
+  result.set(nthWeekday(year, 8, 1, 1), 'Labor Day')
+  result.set(nthWeekday(year, 10, 4, 4), 'Thanksgiving')
+  result.set(observed(`${year}-12-25`), 'Christmas')
+
+  holidaysByYear.set(year, result)
+  return result
+}
+
+// Why the market is shut on `date` (weekend, holiday name), or null on a trading day
+export function closureReason(date: string): string | null {
+  const day = weekday(date)
+  if (day === 6) return 'a Saturday'
+  if (day === 0) return 'a Sunday'
+  return SPECIAL_CLOSURES[date] ?? holidays(Number(date.slice(0, 4))).get(date) ?? null
+}
+
+export const isTradingDay = (date: string) => closureReason(date) === null
+
+// The first trading day on or after `date`
+export function nextTradingDay(date: string): string {
+  let day = date
+  while (!isTradingDay(day)) day = addDays(day, 1)
+  return day
+}
+
+// The last trading day on or before `date`
+export function previousTradingDay(date: string): string {
+  let day = date
+  while (!isTradingDay(day)) day = addDays(day, -1)
+  return day
+}
+
+// Trading days from `start` to `end`, both inclusive
+export function tradingDaysBetween(start: string, end: string): number {
+  let count = 0
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    if (isTradingDay(day)) count++
+  }
+  return count
+}
+
+// Roughly how many bars a range produces at `interval` (full sessions, no gaps in the data)
+export const barsInRange = (start: string, end: string, interval: Interval) =>
+  Math.floor(tradingDaysBetween(start, end) * periodsPerYear(interval) / 252)
+
+// The backend's data lags by a couple of months, so the latest usable date is the last trading day
+// on or before two months ago
+export const DATA_LAG_MONTHS = 2
+
+export function dataCutoff(today: Date): string {
+  const cutoff = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()))
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - DATA_LAG_MONTHS)
+  return previousTradingDay(toDate(cutoff.getTime()))
+}
+
+// e.g. 'Aug 18, 2026'
+export const formatDate = (date: string) =>
+  new Date(parseDate(date)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+export interface DateRangeErrors {
+  start?: string
+  end?: string
+}
+
+// The range must be real dates, fit the data and, for intraday bars, stay within the interval's maximum
+// length. Nothing past this point (trading day counts, walk-forward windows) copes with an impossible date
+export function validateDateRange(start: string, end: string, cutoff: string, interval: Interval): DateRangeErrors {
+  const errors: DateRangeErrors = {}
+  if (start && !isCalendarDate(start)) errors.start = 'Not a valid date'
+  if (end && !isCalendarDate(end)) errors.end = 'Not a valid date'
+  if (errors.start || errors.end) return errors
+
+  const maxDays = maxRangeDays(interval)
+  if (start && start > cutoff) errors.start = `No data after ${formatDate(cutoff)}`
+  if (end && end > cutoff) errors.end = `No data after ${formatDate(cutoff)}`
+  else if (start && end && end <= start) errors.end = 'Must be after the start date'
+  else if (start && end && maxDays && (parseDate(end) - parseDate(start)) / DAY_MS > maxDays) {
+    const label = INTERVALS.find(i => i.id === interval)!.label
+    errors.end = `${label} bars are limited to ${maxDays} days - pick a later start or a coarser interval`
+  }
+  return errors
+}
@@ -0,0 +1,149 @@
+import type { EquityData } from '../types/backtest'
+import type { RoundTrip } from './trades'
+
+export const TRADING_DAYS_PER_YEAR = 252
+
+export interface PerformanceMetrics {
+  initialValue: number
+  finalValue: number
+  cagr: number              // %
+  annualVolatility: number  // %
+  sortino: number
+  calmar: number
+  maxDrawdown: number       // % (negative)
+  maxDrawdownDuration: number  // Bars from peak until the equity made a new high (or the end)
+  winRate: number           // %
+  profitFactor: number
+  averageWin: number        // %
+  averageLoss: number       // % (negative)
+  exposure: number          // % of bars spent in a position
+  numberOfTrades: number
+}
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0
+  const m = mean(values)
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1))
+}
+
+// Bar-to-bar simple returns of an equity curve
+export function periodReturns(values: number[]): number[] {
+  const returns: number[] = []
+  for (let i = 1; i < values.length; i++) {
+    if (values[i - 1] !== 0) returns.push(values[i] / values[i - 1] - 1)
+  }
+  return returns
+}
+
+// Annualized Sharpe (risk-free rate of 0, same as the backend)
+export function sharpeRatio(returns: number[], periodsPerYear = TRADING_DAYS_PER_YEAR): number {
+  const sd = stdDev(returns)
+  return sd === 0 ? 0 : (mean(returns) / sd) * Math.sqrt(periodsPerYear)
+}
+
+// Worst peak-to-trough drop in % and how many bars it took to recover
+export function maxDrawdown(values: number[]): { maxDrawdown: number; duration: number } {
+  let peak = -Infinity
+  let peakIndex = 0
+  let worst = 0
+  let longest = 0
+
+  values.forEach((value, i) => {
+    if (value >= peak) {
+      peak = value
+      peakIndex = i
+    }
+    if (peak > 0) worst = Math.min(worst, (value / peak - 1) * 100)
+    longest = Math.max(longest, i - peakIndex)
+  })
+
+  return { maxDrawdown: worst, duration: longest }
+}
+
+// Percentage below the running equity peak at every bar (0 at new highs)
+export function drawdownSeries(values: number[]): number[] {
+  let peak = -Infinity
+  return values.map(value => {
+    peak = Math.max(peak, value)
+    return peak > 0 ? (value / peak - 1) * 100 : 0
+  })
+}
+
+// Index window of the deepest drawdown: the peak it fell from, the trough, and the bar it recovered on
+// (end is the last bar if the equity never made it back)
+export function worstDrawdownWindow(drawdowns: number[]): { start: number; trough: number; end: number } | null {
+  let trough = -1
+  drawdowns.forEach((dd, i) => {
+    if (dd < 0 && (trough === -1 || dd < drawdowns[trough])) trough = i
+  })
+  if (trough === -1) return null
+
+  let start = trough
+  while (start > 0 && drawdowns[start - 1] < 0) start--
+  start = Math.max(0, start - 1)
+
+  let end = trough
+  while (end < drawdowns.length - 1 && drawdowns[end] < 0) end++
+
+  return { start, trough, end }
+}
+
+export function computePerformanceMetrics(
+  equity: EquityData[],
+  roundTrips: RoundTrip[],
+  periodsPerYear = TRADING_DAYS_PER_YEAR
+): PerformanceMetrics {
+  const values = equity.map(point => point.equity)
+  const initialValue = values[0] ?? 0
+  const finalValue = values[values.length - 1] ?? 0
+  const returns = periodReturns(values)
+
+  // CAGR from calendar time so weekends/holidays don't skew it
+  const firstDate = equity[0] ? new Date(equity[0].datetime).getTime() : 0
+  const lastDate = equity.length ? new Date(equity[equity.length - 1].datetime).getTime() : 0
+  const years = (lastDate - firstDate) / (365.25 * 86_400_000)
+  const cagr = years > 0 && initialValue > 0 ? ((finalValue / initialValue) ** (1 / years) - 1) * 100 : 0
+
+  const annualVolatility = stdDev(returns) * Math.sqrt(periodsPerYear) * 100
+
+  // Sortino only penalises downside deviation (target return of 0)
+  const downsideDeviation = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)))
+  const sortino = downsideDeviation === 0 ? 0 : (mean(returns) / downsideDeviation) * Math.sqrt(periodsPerYear)
+
+  const drawdown = maxDrawdown(values)
+  const calmar = drawdown.maxDrawdown === 0 ? 0 : cagr / Math.abs(drawdown.maxDrawdown)
+
+  // Trade stats only count closed round trips
+  const closed = roundTrips.filter(trip => !trip.open)
+  const wins = closed.filter(trip => trip.pnl > 0)
+  const losses = closed.filter(trip => trip.pnl <= 0)
+  const grossProfit = wins.reduce((sum, trip) => sum + trip.pnl, 0)
+  const grossLoss = Math.abs(losses.reduce((sum, trip) => sum + trip.pnl, 0))
+
+  // The averages are in %, so they split trips by their % return too: with fees or a resized position the
+  // dollar P&L can land on the other side of zero
+  const winPcts = closed.filter(trip => trip.pnlPct > 0).map(trip => trip.pnlPct)
+  const lossPcts = closed.filter(trip => trip.pnlPct <= 0).map(trip => trip.pnlPct)
+
+  const barsInMarket = roundTrips.reduce((sum, trip) => sum + trip.holdingBars, 0)
+
+  return {
+    initialValue,
+    finalValue,
+    cagr,
+    annualVolatility,
+    sortino,
+    calmar,
+    maxDrawdown: drawdown.maxDrawdown,
+    maxDrawdownDuration: drawdown.duration,
+    winRate: closed.length ? (wins.length / closed.length) * 100 : 0,
+    profitFactor: grossLoss === 0 ? (grossProfit > 0 ? Infinity : 0) : grossProfit / grossLoss,
+    averageWin: mean(winPcts),
+    averageLoss: mean(lossPcts),
+    exposure: values.length > 1 ? Math.min(100, (barsInMarket / (values.length - 1)) * 100) : 0,
+    numberOfTrades: closed.length
+  }
+}
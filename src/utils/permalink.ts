@@ -0,0 +1,132 @@
+import { DEFAULT_INTERVAL, isInterval } from './timeframes'
+import type { Interval } from './timeframes'
+import { DEFAULT_EXECUTION_FORM, SIZING_MODES } from './execution'
+import type { ExecutionForm } from './execution'
+import { isCalendarDate } from './marketCalendar'
+
+// Shareable links: the whole backtest form lives in the query string, e.g.
+//   ?v=1&strategy=sma_crossover&symbol=AAPL&start=2020-01-01&end=2024-12-31&cash=10000&p.fast=10&p.slow=30
+// Bump PERMALINK_VERSION whenever a field is renamed or changes meaning, and add a migration from the
+// previous version so links that are already out there keep opening the same setup.
+export const PERMALINK_VERSION = 1
+
+export interface PermalinkConfig {
+  strategy: string                // Built-in strategy id, or 'custom' when `code` carries the source
+  code?: string                   // Custom strategy source
+  params: Record<string, string>  // As typed in the params form
+  symbol: string
+  startDate: string
+  endDate: string
+  amount: string
+  interval: Interval              // Left out of the URL when daily, so older links read the same
+  execution: ExecutionForm        // Likewise, only the fields that differ from the defaults are written
+  autoRun: boolean                // Run as soon as the link is opened
+}
+
+const PARAM_PREFIX = 'p.'
+
+const EXECUTION_KEYS: [string, keyof ExecutionForm][] = [
+  ['commission', 'commission'],
+  ['commission_type', 'commissionType'],
+  ['slippage', 'slippageBps'],
+  ['sizing', 'sizing'],
+  ['size', 'size'],
+  ['short', 'allowShort'],
+]
+
+// Upgrade a query from version N to N + 1. Example for a future v2 that renames `cash`:
+//   1: query => { query.set('capital', query.get('cash') ?? ''); query.delete('cash'); return query }
+const MIGRATIONS: Record<number, (query: URLSearchParams) => URLSearchParams> = {}
+
+// base64url so strategy source survives the URL without a wall of %-escapes
+function encodeText(text: string) {
+  let binary = ''
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function decodeText(encoded: string) {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+// Query string for a config ('' when the form is empty, so a fresh page keeps a clean URL)
+export function encodePermalink(config: PermalinkConfig): string {
+  const query = new URLSearchParams({ v: String(PERMALINK_VERSION) })
+  const set = (key: string, value: string | undefined) => {
+    if (value) query.set(key, value)
+  }
+
+  set('strategy', config.strategy)
+  if (config.code !== undefined) set('code', encodeText(config.code))
+  set('symbol', config.symbol)
+  set('start', config.startDate)
+  set('end', config.endDate)
+  set('cash', config.amount)
+  if (config.interval !== DEFAULT_INTERVAL) set('interval', config.interval)
+  for (const [key, field] of EXECUTION_KEYS) {
+    const value = String(config.execution[field])
+    if (value !== String(DEFAULT_EXECUTION_FORM[field])) set(key, value)
+  }
+  for (const [name, value] of Object.entries(config.params)) set(`${PARAM_PREFIX}${name}`, value)
+  if (config.autoRun) query.set('run', '1')
+
+  return [...query.keys()].length > 1 ? `?${query}` : ''
+}
+
+// Hand-edited links can carry impossible dates; those come back empty for the user to pick again
+const readDate = (value: string | null) => value && isCalendarDate(value) ? value : ''
+
+// Read a config back from `location.search`; null if the URL doesn't describe one
+export function decodePermalink(search: string): PermalinkConfig | null {
+  let query = new URLSearchParams(search)
+  if (!query.has('v') && !query.has('strategy')) return null
+
+  // Links from before versioning count as v1
+  let version = Number(query.get('v') ?? 1)
+  if (!Number.isInteger(version) || version < 1) return null
+  if (version > PERMALINK_VERSION) console.warn(`Permalink version ${version} is newer than this app (v${PERMALINK_VERSION}), reading what we can`)
+
+  while (version < PERMALINK_VERSION) {
+    query = MIGRATIONS[version]?.(query) ?? query
+    version++
+  }
+
+  const params: Record<string, string> = {}
+  for (const [key, value] of query) {
+    if (key.startsWith(PARAM_PREFIX)) params[key.slice(PARAM_PREFIX.length)] = value
+  }
+
+  const interval = query.get('interval')
+  const sizing = SIZING_MODES.find(mode => mode.id === query.get('sizing'))?.id
+
+  let code: string | undefined
+  const encodedCode = query.get('code')
+  if (encodedCode) {
+    try {
+      code = decodeText(encodedCode)
+    } catch (err) {
+      console.error('Permalink has an unreadable strategy source:', err)
+    }
+  }
+
+  return {
+    strategy: query.get('strategy') ?? '',
+    code,
+    params,
+    symbol: query.get('symbol') ?? '',
+    startDate: readDate(query.get('start')),
+    endDate: readDate(query.get('end')),
+    amount: query.get('cash') ?? '',
+    interval: isInterval(interval) ? interval : DEFAULT_INTERVAL,
+    execution: {
+      commission: query.get('commission') ?? DEFAULT_EXECUTION_FORM.commission,
+      commissionType: query.get('commission_type') === 'flat' ? 'flat' : DEFAULT_EXECUTION_FORM.commissionType,
+      slippageBps: query.get('slippage') ?? DEFAULT_EXECUTION_FORM.slippageBps,
+      sizing: sizing ?? DEFAULT_EXECUTION_FORM.sizing,
+      size: query.get('size') ?? DEFAULT_EXECUTION_FORM.size,
+      allowShort: query.get('short') === 'true'
+    },
+    autoRun: query.get('run') === '1'
+  }
+}
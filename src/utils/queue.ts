@@ -0,0 +1,28 @@
+import type { BacktestPayload, BacktestResponse } from '../types/backtest'
+
+// One backtest in a queued batch (sweeps, multi-symbol runs)
+export interface QueuedRun {
+  status: 'pending' | 'running' | 'done' | 'error'
+  payload?: BacktestPayload  // Set once the run is sent, kept so it can be saved to history
+  response?: BacktestResponse
+  durationMs?: number
+  error?: string
+}
+
+// Run async tasks with at most `concurrency` in flight; stops picking up new tasks once aborted
+export async function runWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0
+
+  const worker = async () => {
+    while (next < tasks.length && !signal?.aborted) {
+      const task = tasks[next++]
+      await task()
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, worker))
+}
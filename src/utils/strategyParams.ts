@@ -0,0 +1,102 @@
+// Backtrader strategies declare their tunables as `params = (('fast', 10), ('slow', 30),)`
+// The keys sent in strategy_params MUST match those names, so we read them straight from the source.
+
+export interface StrategyParam {
+  name: string
+  defaultValue: number
+  integer: boolean  // Declared without a decimal point in Python (periods, thresholds)
+}
+
+export type ParamValues = Record<string, number>
+
+// Pairs that must stay strictly ordered (first < second) whenever a strategy declares both
+const ORDERED_PARAMS: [string, string][] = [
+  ['fast', 'slow'],
+  ['oversold', 'overbought'],
+]
+
+// Lookback lengths - anything shorter than one bar makes no sense
+const isLookback = (name: string) => /period|fast|slow/.test(name)
+
+// The bundled .txt strategies store newlines as literal "\n" (see the backend quirk note in App).
+// Only for those - in user code a "\n" is a Python escape
+export const normalizeStrategyCode = (code: string) => code.replace(/\\n/g, '\n')
+
+// Pull the `params = (...)` tuple out of a strategy's source
+export function parseStrategyParams(source: string): StrategyParam[] {
+  const start = source.search(/\bparams\s*=\s*\(/)
+  if (start === -1) return []
+
+  // Walk to the matching closing paren of the outer tuple
+  const open = source.indexOf('(', start)
+  let depth = 0
+  let end = open
+  for (; end < source.length; end++) {
+    if (source[end] === '(') depth++
+    if (source[end] === ')') depth--
+    if (depth === 0) break
+  }
+
+  const tuple = source.slice(open, end + 1)
+  const params: StrategyParam[] = []
+  const pairPattern = /\(\s*['"](\w+)['"]\s*,\s*(-?\d+(?:\.\d*)?)\s*\)/g
+
+  for (const match of tuple.matchAll(pairPattern)) {
+    params.push({
+      name: match[1],
+      defaultValue: parseFloat(match[2]),
+      integer: !match[2].includes('.')
+    })
+  }
+
+  return params
+}
+
+// Form input (strings) pre-filled with the defaults from the source
+export const defaultParamInputs = (params: StrategyParam[]): Record<string, string> =>
+  Object.fromEntries(params.map(p => [p.name, String(p.defaultValue)]))
+
+// Validate raw form input, returning an error message per param name (empty object when valid)
+export function validateParams(params: StrategyParam[], raw: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {}
+  const values: ParamValues = {}
+
+  for (const param of params) {
+    const text = (raw[param.name] ?? '').trim()
+    const value = Number(text)
+
+    if (!text || !Number.isFinite(value)) {
+      errors[param.name] = 'Required number'
+    } else if (param.integer && !Number.isInteger(value)) {
+      errors[param.name] = 'Must be a whole number'
+    } else if (isLookback(param.name) && value < 1) {
+      errors[param.name] = 'Must be at least 1'
+    } else if (value < 0) {
+      errors[param.name] = 'Must be positive'
+    } else {
+      values[param.name] = value
+    }
+  }
+
+  for (const [lower, upper] of ORDERED_PARAMS) {
+    if (values[lower] !== undefined && values[upper] !== undefined && values[lower] >= values[upper]) {
+      errors[lower] = `Must be less than ${upper}`
+    }
+  }
+
+  return errors
+}
+
+// Convert validated form input to the numbers sent as strategy_params
+export const toParamValues = (params: StrategyParam[], raw: Record<string, string>): ParamValues =>
+  Object.fromEntries(params.map(p => [p.name, Number(raw[p.name])]))
+
+// The longest lookback param (e.g. slow=30): the strategy can't trade until that many bars have passed
+export function longestLookback(params: StrategyParam[], values: ParamValues): { name: string; bars: number } | null {
+  let longest: { name: string; bars: number } | null = null
+  for (const param of params) {
+    const bars = values[param.name]
+    if (isLookback(param.name) && Number.isFinite(bars) && (!longest || bars > longest.bars)) longest = { name: param.name, bars }
+  }
+  return longest
+}
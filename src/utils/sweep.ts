@@ -0,0 +1,96 @@
+import type { QueuedRun } from './queue'
+import type { ParamValues, StrategyParam } from './strategyParams'
+import { validateParams } from './strategyParams'
+
+// Hard cap so a typo in a step doesn't queue thousands of backend calls
+export const MAX_SWEEP_RUNS = 400
+
+// Largest grid we expand before validation (invalid combos like fast >= slow can drop a good share of it)
+const MAX_SWEEP_GRID = MAX_SWEEP_RUNS * 10
+
+export interface SweepRange {
+  min: string
+  max: string
+  step: string
+}
+
+export interface SweepRun extends QueuedRun {
+  params: ParamValues
+}
+
+export interface SweepGrid {
+  combos: ParamValues[]  // Combos that pass validation; empty when the grid is too large to expand
+  size: number           // Every combination of the ranges, before validation
+  tooLarge: boolean      // Over the limit, so nothing was expanded
+}
+
+export type SweepMetric = 'sharpe_ratio' | 'total_return' | 'max_drawdown'
+
+// Default range: the source default ± 50%, stepped so there are ~5 values
+export function defaultSweepRange(param: StrategyParam): SweepRange {
+  const min = param.defaultValue * 0.5
+  const max = param.defaultValue * 1.5
+  const step = param.integer ? Math.max(1, Math.round((max - min) / 4)) : Number(((max - min) / 4).toFixed(2))
+
+  return {
+    min: String(param.integer ? Math.max(1, Math.round(min)) : min),
+    max: String(param.integer ? Math.round(max) : max),
+    step: String(step)
+  }
+}
+
+const parseRange = (range: SweepRange) => {
+  const min = Number(range.min)
+  const max = Number(range.max)
+  const step = Number(range.step)
+  return [min, max, step].every(Number.isFinite) && step > 0 && max >= min ? { min, max, step } : null
+}
+
+// How many values a range has, without expanding it
+export function rangeLength(range: SweepRange): number {
+  const parsed = parseRange(range)
+  return parsed ? Math.floor((parsed.max - parsed.min) / parsed.step + 1e-9) + 1 : 0
+}
+
+// Values from min to max (inclusive) in steps, rounded to dodge float drift (0.1 + 0.2 ...)
+export function expandRange(range: SweepRange): number[] {
+  const parsed = parseRange(range)
+  if (!parsed) return []
+
+  const { min, max, step } = parsed
+  const values: number[] = []
+  for (let i = 0; min + i * step <= max + 1e-9 && values.length < MAX_SWEEP_RUNS; i++) {
+    values.push(Number((min + i * step).toFixed(6)))
+  }
+  return values
+}
+
+// Cartesian product of every param's range, dropping combos that fail validation (e.g. fast >= slow).
+// The size is counted first, so an oversized grid is reported as such rather than half built
+export function expandGrid(params: StrategyParam[], ranges: Record<string, SweepRange>): SweepGrid {
+  const rangeOf = (param: StrategyParam) => ranges[param.name] ?? { min: '', max: '', step: '' }
+  const lengths = params.map(param => rangeLength(rangeOf(param)))
+  const size = lengths.reduce((product, length) => product * length, 1)
+  if (size > MAX_SWEEP_GRID || lengths.some(length => length > MAX_SWEEP_RUNS)) {
+    return { combos: [], size, tooLarge: true }
+  }
+
+  let grid: ParamValues[] = [{}]
+  for (const param of params) {
+    const values = expandRange(rangeOf(param))
+    grid = grid.flatMap(combo => values.map(value => ({ ...combo, [param.name]: value })))
+  }
+
+  const combos = grid.filter(combo => {
+    const raw = Object.fromEntries(Object.entries(combo).map(([k, v]) => [k, String(v)]))
+    return Object.keys(validateParams(params, raw)).length === 0
+  })
+  return { combos, size, tooLarge: false }
+}
+
+export const metricOf = (run: QueuedRun, metric: SweepMetric): number | null =>
+  run.response ? run.response.metrics[metric] : null
+
+// Higher is better except for drawdown, where the smaller magnitude wins
+export const isBetter = (metric: SweepMetric, a: number, b: number) =>
+  metric === 'max_drawdown' ? Math.abs(a) < Math.abs(b) : a > b
@@ -0,0 +1,143 @@
+import bundled from '../data/symbols.json'
+import config from '../../symbols.config.json'
+import { formatDate } from './marketCalendar'
+
+// The tickers the picker offers. The bundled list lives in src/data/symbols.json; symbols.config.json at
+// the project root adds to it (an entry with an existing ticker replaces it) or removes from it, so the
+// universe can change without touching code.
+export interface SymbolInfo {
+  ticker: string
+  name: string
+  sector: string
+  exchange: string
+  listed: string  // First trading day, 'YYYY-MM-DD'
+}
+
+interface SymbolConfig {
+  add?: unknown[]
+  remove?: unknown[]
+}
+
+// Config entries are hand edited, so skip the malformed ones instead of breaking the picker
+function isSymbolInfo(entry: unknown): entry is SymbolInfo {
+  if (typeof entry !== 'object' || entry === null) return false
+  const { ticker, name, sector, exchange, listed } = entry as Record<string, unknown>
+  return typeof ticker === 'string' && ticker.trim() !== ''
+    && typeof name === 'string'
+    && typeof sector === 'string'
+    && typeof exchange === 'string'
+    && typeof listed === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(listed)
+}
+
+function buildUniverse(base: SymbolInfo[], { add = [], remove = [] }: SymbolConfig): SymbolInfo[] {
+  const byTicker = new Map(base.map(symbol => [symbol.ticker, symbol]))
+  for (const entry of add) {
+    if (!isSymbolInfo(entry)) {
+      console.warn('symbols.config.json: skipping invalid entry', entry)
+      continue
+    }
+    const ticker = entry.ticker.trim().toUpperCase()
+    byTicker.set(ticker, { ...entry, ticker })
+  }
+  for (const ticker of remove) {
+    if (typeof ticker !== 'string') {
+      console.warn('symbols.config.json: skipping invalid removal', ticker)
+      continue
+    }
+    byTicker.delete(ticker.trim().toUpperCase())
+  }
+  return [...byTicker.values()].sort((a, b) => a.ticker.localeCompare(b.ticker))
+}
+
+export const SYMBOL_UNIVERSE = buildUniverse(bundled, config as SymbolConfig)
+
+const BY_TICKER = new Map(SYMBOL_UNIVERSE.map(symbol => [symbol.ticker, symbol]))
+
+export const findSymbol = (ticker: string) => BY_TICKER.get(ticker)
+
+// Something the backend could plausibly have data for, when typed in but not in the universe
+export const isTickerLike = (text: string) => /^[A-Z][A-Z0-9.-]{0,9}$/.test(text)
+
+// Every character of `query` appears in `text` in order (e.g. 'nflx' in 'netflix')
+function isSubsequence(query: string, text: string) {
+  let i = 0
+  for (const char of text) {
+    if (char === query[i]) i++
+    if (i === query.length) return true
+  }
+  return false
+}
+
+// Higher is a better match, 0 is no match. Ticker hits beat name hits, and whole-word name hits beat
+// scattered letters.
+function matchScore(query: string, symbol: SymbolInfo): number {
+  const ticker = symbol.ticker.toLowerCase()
+  const name = symbol.name.toLowerCase()
+  if (ticker === query) return 100
+  if (ticker.startsWith(query)) return 80 - (ticker.length - query.length)
+  if (name.startsWith(query)) return 60
+  if (name.split(/[\s.,&()-]+/).some(word => word.startsWith(query))) return 50
+  if (name.includes(query)) return 40
+  if (isSubsequence(query, ticker)) return 30
+  if (query.length > 2 && isSubsequence(query, name)) return 10
+  return 0
+}
+
+// Fuzzy search by ticker or company name, best matches first
+export function searchSymbols(query: string, universe: SymbolInfo[] = SYMBOL_UNIVERSE, limit = 20): SymbolInfo[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return universe.slice(0, limit)
+  return universe
+    .map(symbol => ({ symbol, score: matchScore(q, symbol) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.symbol.ticker.localeCompare(b.symbol.ticker))
+    .slice(0, limit)
+    .map(match => match.symbol)
+}
+
+// Sectors in the universe, for the batch presets
+export function symbolsBySector(universe: SymbolInfo[] = SYMBOL_UNIVERSE): Record<string, string[]> {
+  const sectors: Record<string, string[]> = {}
+  for (const symbol of universe) (sectors[symbol.sector] ??= []).push(symbol.ticker)
+  return sectors
+}
+
+const FAVORITES_KEY = 'backtest.favoriteSymbols'
+const RECENTS_KEY = 'backtest.recentSymbols'
+export const MAX_RECENT_SYMBOLS = 8
+
+function loadTickers(key: string, what: string): string[] {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) as string[] : []
+  } catch (err) {
+    console.error(`Failed to load ${what}:`, err)
+    return []
+  }
+}
+
+export const loadFavoriteSymbols = () => loadTickers(FAVORITES_KEY, 'favorite symbols')
+export const loadRecentSymbols = () => loadTickers(RECENTS_KEY, 'recent symbols')
+
+// If storage is full or disabled the lists just don't outlive the session
+function saveTickers(key: string, what: string, tickers: string[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(tickers))
+  } catch (err) {
+    console.error(`Failed to save ${what}:`, err)
+  }
+}
+
+export const saveFavoriteSymbols = (tickers: string[]) => saveTickers(FAVORITES_KEY, 'favorite symbols', tickers)
+export const saveRecentSymbols = (tickers: string[]) => saveTickers(RECENTS_KEY, 'recent symbols', tickers)
+
+// Most recent first, no duplicates
+export const pushRecent = (recents: string[], ticker: string) =>
+  [ticker, ...recents.filter(t => t !== ticker)].slice(0, MAX_RECENT_SYMBOLS)
+
+// Warning for a run starting before the symbol traded, or null when the range is fine (or unknown)
+export function listingWarning(ticker: string, startDate: string): string | null {
+  const symbol = findSymbol(ticker)
+  if (!symbol || !startDate || startDate >= symbol.listed) return null
+  return `${ticker} listed on ${formatDate(symbol.listed)}, so there's no data before then`
+}
@@ -0,0 +1,92 @@
+import type {
+  IChartApiBase,
+  IPrimitivePaneRenderer,
+  IPrimitivePaneView,
+  ISeriesPrimitive,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time
+} from 'lightweight-charts'
+
+export interface TimeBand {
+  from: Time  // First bar, inclusive (times between bars snap to the next bar)
+  to: Time    // Last bar, inclusive
+  label: string
+}
+
+// Series primitive that shades stretches of the time scale (e.g. walk-forward windows): alternating
+// fills across the whole pane, a line at each band's start and its label along the top. Drawn
+// underneath the series like BandFill.
+export class TimeBands implements ISeriesPrimitive<Time> {
+  private bands: TimeBand[]
+  private chart: IChartApiBase<Time> | null = null
+  private requestUpdate: (() => void) | null = null
+  private views: IPrimitivePaneView[]
+
+  constructor(bands: TimeBand[]) {
+    this.bands = bands
+    this.views = [{ zOrder: () => 'bottom', renderer: () => this.renderer() }]
+  }
+
+  attached({ chart, requestUpdate }: SeriesAttachedParameter<Time, SeriesType>) {
+    this.chart = chart
+    this.requestUpdate = requestUpdate
+  }
+
+  detached() {
+    this.chart = null
+    this.requestUpdate = null
+  }
+
+  setBands(bands: TimeBand[]) {
+    this.bands = bands
+    this.requestUpdate?.()
+  }
+
+  paneViews() {
+    return this.views
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const { chart, bands } = this
+    if (!chart || bands.length === 0) return null
+
+    // Half a bar either side so neighbouring bands meet between bars rather than on them
+    const timeScale = chart.timeScale()
+    const rects: { left: number; right: number; label: string }[] = []
+    for (const band of bands) {
+      const from = timeScale.timeToIndex(band.from, true)
+      const to = timeScale.timeToIndex(band.to, true)
+      if (from === null || to === null) continue
+      const left = timeScale.logicalToCoordinate((from - 0.5) as Logical)
+      const right = timeScale.logicalToCoordinate((to + 0.5) as Logical)
+      if (left !== null && right !== null) rects.push({ left, right, label: band.label })
+    }
+
+    return {
+      draw: target => {
+        target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+          context.font = '11px sans-serif'
+          context.textBaseline = 'top'
+          rects.forEach(({ left, right, label }, i) => {
+            if (right < 0 || left > mediaSize.width) return
+            context.fillStyle = i % 2 === 0 ? 'rgba(255, 193, 7, 0.06)' : 'rgba(255, 193, 7, 0.12)'
+            context.fillRect(left, 0, right - left, mediaSize.height)
+
+            context.strokeStyle = 'rgba(255, 193, 7, 0.5)'
+            context.setLineDash([4, 4])
+            context.beginPath()
+            context.moveTo(Math.round(left) + 0.5, 0)
+            context.lineTo(Math.round(left) + 0.5, mediaSize.height)
+            context.stroke()
+            context.setLineDash([])
+
+            context.fillStyle = 'rgba(255, 193, 7, 0.8)'
+            context.fillText(label, left + 4, 4)
+          })
+        })
+      }
+    }
+  }
+}
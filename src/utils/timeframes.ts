@@ -0,0 +1,130 @@
+import type { BackendCandle, BacktestResponse, IndicatorDataPoint, TradeSignal } from '../types/backtest'
+
+// Bar sizes the backend can be asked for (sent as `interval` in the payload), finest first.
+// Intraday sizes cap the date range (calendar days) so a run stays around 10k bars or less - the chart,
+// metrics and mock engine all work through every bar on the main thread
+export type Interval = '1m' | '5m' | '1h' | '1d' | '1w'
+
+export const INTERVALS: { id: Interval; label: string; seconds: number; maxRangeDays?: number }[] = [
+  { id: '1m', label: '1 min', seconds: 60, maxRangeDays: 31 },
+  { id: '5m', label: '5 min', seconds: 5 * 60, maxRangeDays: 183 },
+  { id: '1h', label: '1 hour', seconds: 60 * 60, maxRangeDays: 2 * 365 },
+  { id: '1d', label: '1 day', seconds: 24 * 60 * 60 },
+  { id: '1w', label: '1 week', seconds: 7 * 24 * 60 * 60 },
+]
+
+// What runs used before intervals existed
+export const DEFAULT_INTERVAL: Interval = '1d'
+
+const secondsOf = (interval: Interval) => INTERVALS.find(i => i.id === interval)!.seconds
+
+export const isInterval = (value: unknown): value is Interval => INTERVALS.some(i => i.id === value)
+
+export const maxRangeDays = (interval: Interval) => INTERVALS.find(i => i.id === interval)!.maxRangeDays
+
+// Sub-daily bars need real timestamps on the chart; daily and weekly bars are plain dates
+export const isIntraday = (interval: Interval) => secondsOf(interval) < 24 * 60 * 60
+
+// Regular US equity session (09:30-16:00 New York)
+export const SESSION_MINUTES = 390
+
+// For annualizing per-bar returns (Sharpe, volatility...)
+export function periodsPerYear(interval: Interval): number {
+  if (interval === '1w') return 52
+  return 252 * (isIntraday(interval) ? Math.ceil((SESSION_MINUTES * 60) / secondsOf(interval)) : 1)
+}
+
+// Intervals a run at `interval` can be resampled to for viewing (itself and anything coarser)
+export const viewIntervalsFor = (interval: Interval) => INTERVALS.filter(i => i.seconds >= secondsOf(interval))
+
+// Backend datetimes: 'YYYY-MM-DD' or 'YYYY-MM-DDTHH:MM[:SS[.fff]]', optionally ending in 'Z' or an offset
+// like '-05:00'. Without an offset the time is taken as UTC. Returns ms since epoch, NaN if unreadable.
+const DATETIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+
+export function parseDatetime(datetime: string): number {
+  const match = DATETIME.exec(datetime.trim())
+  if (!match) return NaN
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '', zone = 'Z'] = match
+  const ms = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, Math.round(Number(fraction || 0) * 1000))
+  if (zone.toUpperCase() === 'Z') return ms
+
+  const sign = zone[0] === '-' ? -1 : 1
+  const digits = zone.slice(1).replace(':', '')
+  const offsetMinutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))
+  return ms - sign * offsetMinutes * 60_000
+}
+
+// Back to the backend's format, in UTC
+export const formatDatetime = (ms: number) => new Date(ms).toISOString().slice(0, 19)
+
+// Key that identifies a bar: the date for daily data (a midnight time, with or without an offset, is
+// dropped), the full UTC datetime for intraday data
+export function barKey(datetime: string): string {
+  const match = DATETIME.exec(datetime.trim())
+  if (!match) return datetime.split('T')[0]
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match
+  return +hour === 0 && +minute === 0 && +second === 0
+    ? `${year}-${month}-${day}`
+    : formatDatetime(parseDatetime(datetime))
+}
+
+// Start of the bar that `ms` falls in. Weeks start on Monday
+export function bucketStart(ms: number, interval: Interval): number {
+  const dayMs = 24 * 60 * 60 * 1000
+  if (interval === '1w') {
+    const day = Math.floor(ms / dayMs) * dayMs
+    return day - ((new Date(day).getUTCDay() + 6) % 7) * dayMs
+  }
+  const size = secondsOf(interval) * 1000
+  return Math.floor(ms / size) * size
+}
+
+// The datetime of the bar `datetime` falls in, e.g. for pointing at a trade on a resampled chart
+export const bucketDatetime = (datetime: string, interval: Interval) => formatDatetime(bucketStart(parseDatetime(datetime), interval))
+
+// OHLCV aggregated into coarser bars: first open, highest high, lowest low, last close, summed volume
+export function resampleCandles(candles: BackendCandle[], interval: Interval): BackendCandle[] {
+  const result: BackendCandle[] = []
+  for (const candle of candles) {
+    const datetime = bucketDatetime(candle.datetime, interval)
+    const bar = result[result.length - 1]
+    if (bar && bar.datetime === datetime) {
+      bar.high = Math.max(bar.high, candle.high)
+      bar.low = Math.min(bar.low, candle.low)
+      bar.close = candle.close
+      bar.volume += candle.volume
+    } else {
+      result.push({ ...candle, datetime })
+    }
+  }
+  return result
+}
+
+// Point-in-time series (equity, indicators): the last value of each bar
+export function resamplePoints<T extends { datetime: string }>(points: T[], interval: Interval): T[] {
+  const result: T[] = []
+  for (const point of points) {
+    const datetime = bucketDatetime(point.datetime, interval)
+    if (result.length > 0 && result[result.length - 1].datetime === datetime) result[result.length - 1] = { ...point, datetime }
+    else result.push({ ...point, datetime })
+  }
+  return result
+}
+
+// A run viewed at a coarser interval. Trades keep their fill prices but move onto the bar they fell in
+export function resampleResponse(response: BacktestResponse, interval: Interval): BacktestResponse {
+  const indicators = response.indicators && Object.fromEntries(
+    Object.entries(response.indicators).map(([name, points]) => [name, resamplePoints<IndicatorDataPoint>(points, interval)])
+  )
+  const trades = response.trades?.map((trade): TradeSignal => ({ ...trade, datetime: bucketDatetime(trade.datetime, interval) }))
+
+  return {
+    ...response,
+    candles: resampleCandles(response.candles, interval),
+    equity: resamplePoints(response.equity, interval),
+    indicators,
+    trades
+  }
+}
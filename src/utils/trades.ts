@@ -0,0 +1,103 @@
+import type { BackendCandle, EquityData, TradeSignal } from '../types/backtest'
+import { barKey, parseDatetime } from './timeframes'
+
+// One buy paired with the next sell (or, for a short, one sell paired with the next buy)
+export interface RoundTrip {
+  side: 'long' | 'short'
+  entryDate: string  // YYYY-MM-DD, or a full UTC datetime for intraday bars (see barKey)
+  exitDate: string
+  entryPrice: number
+  exitPrice: number
+  holdingDays: number
+  holdingBars: number
+  pnlPct: number
+  pnl: number
+  cumulativePnl: number
+  open: boolean  // Still held at the end of the backtest (marked to the last close)
+}
+
+const toDate = barKey
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseDatetime(to) - parseDatetime(from)) / 86_400_000)
+
+// Position left by a buy/sell stream, read the way buildRoundTrips pairs it: a buy opens a long or
+// covers a short, a sell closes a long or opens a short, and adding to a position is ignored
+export function positionAfter(trades: TradeSignal[]): { side: RoundTrip['side']; entry: TradeSignal } | null {
+  let position: { side: RoundTrip['side']; entry: TradeSignal } | null = null
+  for (const trade of [...trades].sort((a, b) => a.datetime.localeCompare(b.datetime))) {
+    const side = trade.type === 'buy' ? 'long' : 'short'
+    if (!position) position = { side, entry: trade }
+    else if (position.side !== side) position = null
+  }
+  return position
+}
+
+// Pair the flat buy/sell stream from the backend into round trips. A reversal comes through as two
+// signals on the same bar (close the long, open the short).
+// Prices fall back to the candle close when the backend doesn't send a fill price.
+// $ P&L comes from the equity curve between entry and exit (exact whatever the sizer was),
+// falling back to sizing the whole running capital when the equity point is missing.
+export function buildRoundTrips(
+  trades: TradeSignal[],
+  candles: BackendCandle[],
+  equity: EquityData[],
+  initialCash: number
+): RoundTrip[] {
+  const closeByDate = new Map(candles.map(c => [toDate(c.datetime), c.close]))
+  const barIndexByDate = new Map(candles.map((c, i) => [toDate(c.datetime), i]))
+  const equityByDate = new Map(equity.map(e => [toDate(e.datetime), e.equity]))
+
+  const sorted = [...trades].sort((a, b) => a.datetime.localeCompare(b.datetime))
+  const roundTrips: RoundTrip[] = []
+  let entry: TradeSignal | null = null
+  let cumulativePnl = 0
+
+  const close = (entryTrade: TradeSignal, exitDate: string, exitPrice: number | undefined, open: boolean) => {
+    const side = entryTrade.type === 'buy' ? 'long' : 'short'
+    const entryDate = toDate(entryTrade.datetime)
+    const entryPrice = entryTrade.price ?? closeByDate.get(entryDate)
+    if (entryPrice === undefined || exitPrice === undefined) return
+
+    const pnlPct = ((exitPrice - entryPrice) / entryPrice) * 100 * (side === 'long' ? 1 : -1)
+    const entryEquity = equityByDate.get(entryDate)
+    const exitEquity = equityByDate.get(exitDate)
+    const pnl = entryEquity !== undefined && exitEquity !== undefined
+      ? exitEquity - entryEquity
+      : (initialCash + cumulativePnl) * pnlPct / 100
+
+    cumulativePnl += pnl
+    roundTrips.push({
+      side,
+      entryDate,
+      exitDate,
+      entryPrice,
+      exitPrice,
+      holdingDays: daysBetween(entryDate, exitDate),
+      holdingBars: (barIndexByDate.get(exitDate) ?? 0) - (barIndexByDate.get(entryDate) ?? 0),
+      pnlPct,
+      pnl,
+      cumulativePnl,
+      open
+    })
+  }
+
+  for (const trade of sorted) {
+    if (!entry) {
+      entry = trade
+    } else if (entry.type !== trade.type) {
+      const exitDate = toDate(trade.datetime)
+      close(entry, exitDate, trade.price ?? closeByDate.get(exitDate), false)
+      entry = null
+    }
+    // Same side again is pyramiding - ignored, the strategies only ever hold one position
+  }
+
+  // Mark a still-open position to the last candle
+  if (entry && candles.length > 0) {
+    const last = candles[candles.length - 1]
+    close(entry, toDate(last.datetime), last.close, true)
+  }
+
+  return roundTrips
+}
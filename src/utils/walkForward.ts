@@ -0,0 +1,203 @@
+import type { BackendCandle, BackendIndicators, BacktestResponse, EquityData, TradeSignal } from '../types/backtest'
+import { maxDrawdown, periodReturns, sharpeRatio, TRADING_DAYS_PER_YEAR } from './metrics'
+import type { QueuedRun } from './queue'
+import type { ParamValues } from './strategyParams'
+import { isBetter } from './sweep'
+import type { SweepMetric } from './sweep'
+import { positionAfter } from './trades'
+
+// Walk-forward: split the date range into in-sample (IS) windows where the params are swept, each
+// followed by an out-of-sample (OOS) window that only ever sees the IS winner. Rolling windows keep the
+// IS length fixed; anchored windows all start at the beginning of the range and grow.
+export type WalkForwardScheme = 'rolling' | 'anchored'
+
+export interface WalkForwardSettings {
+  scheme: WalkForwardScheme
+  inSampleMonths: number
+  outOfSampleMonths: number
+  metric: SweepMetric  // What "best" means when picking each window's params
+}
+
+export const DEFAULT_WALK_FORWARD: WalkForwardSettings = {
+  scheme: 'rolling',
+  inSampleMonths: 12,
+  outOfSampleMonths: 3,
+  metric: 'sharpe_ratio'
+}
+
+// The settings as typed: months stay strings so a field can be cleared while editing
+export interface WalkForwardForm {
+  scheme: WalkForwardScheme
+  inSampleMonths: string
+  outOfSampleMonths: string
+  metric: SweepMetric
+}
+
+export const DEFAULT_WALK_FORWARD_FORM: WalkForwardForm = {
+  ...DEFAULT_WALK_FORWARD,
+  inSampleMonths: String(DEFAULT_WALK_FORWARD.inSampleMonths),
+  outOfSampleMonths: String(DEFAULT_WALK_FORWARD.outOfSampleMonths)
+}
+
+const MAX_WINDOW_MONTHS = 120
+
+export function validateWalkForward(form: WalkForwardForm): Partial<Record<keyof WalkForwardForm, string>> {
+  const errors: Partial<Record<keyof WalkForwardForm, string>> = {}
+  const months = (text: string) => {
+    const value = text.trim() === '' ? NaN : Number(text)
+    if (!Number.isInteger(value) || value < 1) return 'Must be a whole number of months, 1 or more'
+    if (value > MAX_WINDOW_MONTHS) return `At most ${MAX_WINDOW_MONTHS} months`
+    return undefined
+  }
+
+  const inSample = months(form.inSampleMonths)
+  if (inSample) errors.inSampleMonths = inSample
+  const outOfSample = months(form.outOfSampleMonths)
+  if (outOfSample) errors.outOfSampleMonths = outOfSample
+  return errors
+}
+
+// Only call with a form that passed validation
+export const toWalkForwardSettings = (form: WalkForwardForm): WalkForwardSettings => ({
+  ...form,
+  inSampleMonths: Number(form.inSampleMonths),
+  outOfSampleMonths: Number(form.outOfSampleMonths)
+})
+
+// Windows x combos adds up quickly, so cap the backend calls like sweeps do
+export const MAX_WALK_FORWARD_WINDOWS = 24
+export const MAX_WALK_FORWARD_RUNS = 1200
+
+export interface DateRange {
+  start: string  // YYYY-MM-DD, inclusive
+  end: string
+}
+
+export interface WalkForwardWindow {
+  index: number
+  inSample: DateRange
+  outOfSample: DateRange
+}
+
+// One in-sample combo. Only the metrics are kept - holding every response would pile up candles fast
+export interface Trial {
+  params: ParamValues
+  status: QueuedRun['status']
+  metrics?: BacktestResponse['metrics']
+  error?: string
+}
+
+export interface WalkForwardResult extends WalkForwardWindow {
+  trials: Trial[]
+  best: Trial | null  // IS winner, picked once the window's sweep is done
+  oos: QueuedRun      // The winner run on the OOS window
+}
+
+const DAY_MS = 86_400_000
+
+const toDate = (ms: number) => new Date(ms).toISOString().split('T')[0]
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`).getTime()
+const addDays = (date: string, days: number) => toDate(parseDate(date) + days * DAY_MS)
+
+// Calendar months, clamped to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+function addMonths(date: string, months: number) {
+  const d = new Date(`${date}T00:00:00Z`)
+  const day = d.getUTCDate()
+  d.setUTCDate(1)
+  d.setUTCMonth(d.getUTCMonth() + months)
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate()
+  d.setUTCDate(Math.min(day, lastDay))
+  return toDate(d.getTime())
+}
+
+export function buildWindows(startDate: string, endDate: string, settings: WalkForwardSettings): WalkForwardWindow[] {
+  const { scheme, inSampleMonths, outOfSampleMonths } = settings
+  if (!startDate || !endDate || !(inSampleMonths > 0) || !(outOfSampleMonths > 0)) return []
+
+  const windows: WalkForwardWindow[] = []
+  for (let i = 0; windows.length < MAX_WALK_FORWARD_WINDOWS; i++) {
+    // From the range start each time, so month-end clamping doesn't drift
+    const oosStart = addMonths(startDate, inSampleMonths + i * outOfSampleMonths)
+    if (oosStart > endDate) break
+
+    const oosEnd = addDays(addMonths(startDate, inSampleMonths + (i + 1) * outOfSampleMonths), -1)
+    windows.push({
+      index: i,
+      inSample: {
+        start: scheme === 'anchored' ? startDate : addMonths(startDate, i * outOfSampleMonths),
+        end: addDays(oosStart, -1)
+      },
+      outOfSample: { start: oosStart, end: oosEnd < endDate ? oosEnd : endDate }
+    })
+  }
+  return windows
+}
+
+export function pickBest(trials: Trial[], metric: SweepMetric): Trial | null {
+  let best: Trial | null = null
+  for (const trial of trials) {
+    if (!trial.metrics) continue
+    if (!best?.metrics || isBetter(metric, trial.metrics[metric], best.metrics[metric])) best = trial
+  }
+  return best
+}
+
+// Total return over a window, annualized so IS and OOS windows of different lengths compare
+export function annualizedReturn(totalReturn: number, range: DateRange): number {
+  const years = (parseDate(range.end) - parseDate(range.start) + DAY_MS) / (365.25 * DAY_MS)
+  return years > 0 && totalReturn > -100 ? ((1 + totalReturn / 100) ** (1 / years) - 1) * 100 : 0
+}
+
+// Chain the OOS runs into one run starting from `initialCash`: each segment is rescaled so it starts
+// where the previous one ended. Candles, trades and indicators are concatenated.
+export function stitchOutOfSample(
+  results: WalkForwardResult[],
+  initialCash: number,
+  periodsPerYear = TRADING_DAYS_PER_YEAR
+): BacktestResponse | null {
+  const segments = results.flatMap(result => result.oos.response ? [result.oos.response] : [])
+  if (segments.length === 0) return null
+
+  const candles: BackendCandle[] = []
+  const equity: EquityData[] = []
+  const trades: TradeSignal[] = []
+  const indicators: BackendIndicators = {}
+  let capital = initialCash
+
+  for (const segment of segments) {
+    const first = segment.equity[0]?.equity
+    const scale = first > 0 ? capital / first : 1
+    for (const point of segment.equity) equity.push({ datetime: point.datetime, equity: point.equity * scale })
+    capital = equity[equity.length - 1]?.equity ?? capital
+
+    candles.push(...segment.candles)
+    trades.push(...(segment.trades ?? []))
+    // Each window is its own backtest, so a position still open at its end is closed there rather than
+    // being paired with the next window's trades
+    const lastCandle = segment.candles[segment.candles.length - 1]
+    const open = positionAfter(segment.trades ?? [])
+    if (open && lastCandle) {
+      trades.push({ datetime: lastCandle.datetime, type: open.side === 'long' ? 'sell' : 'buy', price: lastCandle.close })
+    }
+    for (const [name, points] of Object.entries(segment.indicators ?? {})) {
+      indicators[name] = [...(indicators[name] ?? []), ...points]
+    }
+  }
+
+  const values = equity.map(point => point.equity)
+  return {
+    success: true,
+    strategy_name: segments[0].strategy_name,
+    metrics: {
+      initial_value: initialCash,
+      final_value: capital,
+      total_return: (capital / initialCash - 1) * 100,
+      sharpe_ratio: sharpeRatio(periodReturns(values), periodsPerYear),
+      max_drawdown: maxDrawdown(values).maxDrawdown
+    },
+    candles,
+    equity,
+    indicators,
+    trades
+  }
+}
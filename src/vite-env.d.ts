@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string
+  readonly VITE_API_TIMEOUT_SECONDS?: string
+  readonly VITE_MOCK_API?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}